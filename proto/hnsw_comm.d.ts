@@ -17,6 +17,12 @@ export namespace index_buffer {
 
         /** LayerNode neighbors */
         neighbors?: ({ [k: string]: number }|null);
+
+        /** LayerNode ids */
+        ids?: (number[]|null);
+
+        /** LayerNode distances */
+        distances?: (number[]|null);
     }
 
     /** Represents a LayerNode. */
@@ -40,6 +46,12 @@ export namespace index_buffer {
         /** LayerNode neighbors. */
         public neighbors: { [k: string]: number };
 
+        /** LayerNode ids. */
+        public ids: number[];
+
+        /** LayerNode distances. */
+        public distances: number[];
+
         /**
          * Creates a new LayerNode instance using the specified properties.
          * @param [properties] Properties to set
@@ -229,6 +241,9 @@ export namespace index_buffer {
 
         /** PointQuant v */
         v?: (number[]|null);
+
+        /** PointQuant b */
+        b?: (Uint8Array|null);
     }
 
     /** Represents a PointQuant. */
@@ -246,6 +261,9 @@ export namespace index_buffer {
         /** PointQuant v. */
         public v: number[];
 
+        /** PointQuant b. */
+        public b: Uint8Array;
+
         /**
          * Creates a new PointQuant instance using the specified properties.
          * @param [properties] Properties to set
@@ -28,6 +28,8 @@ $root.index_buffer = (function() {
          * @property {number|null} [idx] LayerNode idx
          * @property {boolean|null} [visible] LayerNode visible
          * @property {Object.<string,number>|null} [neighbors] LayerNode neighbors
+         * @property {Array.<number>|null} [ids] LayerNode ids
+         * @property {Array.<number>|null} [distances] LayerNode distances
          */
 
         /**
@@ -40,6 +42,8 @@ $root.index_buffer = (function() {
          */
         function LayerNode(properties) {
             this.neighbors = {};
+            this.ids = [];
+            this.distances = [];
             if (properties)
                 for (var keys = Object.keys(properties), i = 0; i < keys.length; ++i)
                     if (properties[keys[i]] != null)
@@ -78,6 +82,22 @@ $root.index_buffer = (function() {
          */
         LayerNode.prototype.neighbors = $util.emptyObject;
 
+        /**
+         * LayerNode ids.
+         * @member {Array.<number>} ids
+         * @memberof index_buffer.LayerNode
+         * @instance
+         */
+        LayerNode.prototype.ids = $util.emptyArray;
+
+        /**
+         * LayerNode distances.
+         * @member {Array.<number>} distances
+         * @memberof index_buffer.LayerNode
+         * @instance
+         */
+        LayerNode.prototype.distances = $util.emptyArray;
+
         /**
          * Creates a new LayerNode instance using the specified properties.
          * @function create
@@ -111,6 +131,18 @@ $root.index_buffer = (function() {
             if (message.neighbors != null && Object.hasOwnProperty.call(message, "neighbors"))
                 for (var keys = Object.keys(message.neighbors), i = 0; i < keys.length; ++i)
                     writer.uint32(/* id 4, wireType 2 =*/34).fork().uint32(/* id 1, wireType 0 =*/8).uint32(keys[i]).uint32(/* id 2, wireType 5 =*/21).float(message.neighbors[keys[i]]).ldelim();
+            if (message.ids != null && message.ids.length) {
+                writer.uint32(/* id 5, wireType 2 =*/42).fork();
+                for (var i = 0; i < message.ids.length; ++i)
+                    writer.uint32(message.ids[i]);
+                writer.ldelim();
+            }
+            if (message.distances != null && message.distances.length) {
+                writer.uint32(/* id 6, wireType 2 =*/50).fork();
+                for (var i = 0; i < message.distances.length; ++i)
+                    writer.float(message.distances[i]);
+                writer.ldelim();
+            }
             return writer;
         };
 
@@ -180,6 +212,28 @@ $root.index_buffer = (function() {
                         message.neighbors[key] = value;
                         break;
                     }
+                case 5: {
+                        if (!(message.ids && message.ids.length))
+                            message.ids = [];
+                        if ((tag & 7) === 2) {
+                            var end2 = reader.uint32() + reader.pos;
+                            while (reader.pos < end2)
+                                message.ids.push(reader.uint32());
+                        } else
+                            message.ids.push(reader.uint32());
+                        break;
+                    }
+                case 6: {
+                        if (!(message.distances && message.distances.length))
+                            message.distances = [];
+                        if ((tag & 7) === 2) {
+                            var end2 = reader.uint32() + reader.pos;
+                            while (reader.pos < end2)
+                                message.distances.push(reader.float());
+                        } else
+                            message.distances.push(reader.float());
+                        break;
+                    }
                 default:
                     reader.skipType(tag & 7);
                     break;
@@ -235,6 +289,20 @@ $root.index_buffer = (function() {
                         return "neighbors: number{k:uint32} expected";
                 }
             }
+            if (message.ids != null && message.hasOwnProperty("ids")) {
+                if (!Array.isArray(message.ids))
+                    return "ids: array expected";
+                for (var i = 0; i < message.ids.length; ++i)
+                    if (!$util.isInteger(message.ids[i]))
+                        return "ids: integer[] expected";
+            }
+            if (message.distances != null && message.hasOwnProperty("distances")) {
+                if (!Array.isArray(message.distances))
+                    return "distances: array expected";
+                for (var i = 0; i < message.distances.length; ++i)
+                    if (typeof message.distances[i] !== "number")
+                        return "distances: number[] expected";
+            }
             return null;
         };
 
@@ -263,6 +331,20 @@ $root.index_buffer = (function() {
                 for (var keys = Object.keys(object.neighbors), i = 0; i < keys.length; ++i)
                     message.neighbors[keys[i]] = Number(object.neighbors[keys[i]]);
             }
+            if (object.ids) {
+                if (!Array.isArray(object.ids))
+                    throw TypeError(".index_buffer.LayerNode.ids: array expected");
+                message.ids = [];
+                for (var i = 0; i < object.ids.length; ++i)
+                    message.ids[i] = object.ids[i] >>> 0;
+            }
+            if (object.distances) {
+                if (!Array.isArray(object.distances))
+                    throw TypeError(".index_buffer.LayerNode.distances: array expected");
+                message.distances = [];
+                for (var i = 0; i < object.distances.length; ++i)
+                    message.distances[i] = Number(object.distances[i]);
+            }
             return message;
         };
 
@@ -279,6 +361,10 @@ $root.index_buffer = (function() {
             if (!options)
                 options = {};
             var object = {};
+            if (options.arrays || options.defaults) {
+                object.ids = [];
+                object.distances = [];
+            }
             if (options.objects || options.defaults)
                 object.neighbors = {};
             if (options.defaults) {
@@ -298,6 +384,16 @@ $root.index_buffer = (function() {
                 for (var j = 0; j < keys2.length; ++j)
                     object.neighbors[keys2[j]] = options.json && !isFinite(message.neighbors[keys2[j]]) ? String(message.neighbors[keys2[j]]) : message.neighbors[keys2[j]];
             }
+            if (message.ids && message.ids.length) {
+                object.ids = [];
+                for (var j = 0; j < message.ids.length; ++j)
+                    object.ids[j] = message.ids[j];
+            }
+            if (message.distances && message.distances.length) {
+                object.distances = [];
+                for (var j = 0; j < message.distances.length; ++j)
+                    object.distances[j] = options.json && !isFinite(message.distances[j]) ? String(message.distances[j]) : message.distances[j];
+            }
             return object;
         };
 
@@ -589,6 +685,7 @@ $root.index_buffer = (function() {
          * @interface IPointQuant
          * @property {number|null} [idx] PointQuant idx
          * @property {Array.<number>|null} [v] PointQuant v
+         * @property {Uint8Array|null} [b] PointQuant b
          */
 
         /**
@@ -623,6 +720,14 @@ $root.index_buffer = (function() {
          */
         PointQuant.prototype.v = $util.emptyArray;
 
+        /**
+         * PointQuant b.
+         * @member {Uint8Array} b
+         * @memberof index_buffer.PointQuant
+         * @instance
+         */
+        PointQuant.prototype.b = $util.newBuffer([]);
+
         /**
          * Creates a new PointQuant instance using the specified properties.
          * @function create
@@ -655,6 +760,8 @@ $root.index_buffer = (function() {
                     writer.uint32(message.v[i]);
                 writer.ldelim();
             }
+            if (message.b != null && Object.hasOwnProperty.call(message, "b"))
+                writer.uint32(/* id 3, wireType 2 =*/26).bytes(message.b);
             return writer;
         };
 
@@ -704,6 +811,10 @@ $root.index_buffer = (function() {
                             message.v.push(reader.uint32());
                         break;
                     }
+                case 3: {
+                        message.b = reader.bytes();
+                        break;
+                    }
                 default:
                     reader.skipType(tag & 7);
                     break;
@@ -749,6 +860,9 @@ $root.index_buffer = (function() {
                     if (!$util.isInteger(message.v[i]))
                         return "v: integer[] expected";
             }
+            if (message.b != null && message.hasOwnProperty("b"))
+                if (!(message.b && typeof message.b.length === "number" || $util.isString(message.b)))
+                    return "b: buffer expected";
             return null;
         };
 
@@ -773,6 +887,11 @@ $root.index_buffer = (function() {
                 for (var i = 0; i < object.v.length; ++i)
                     message.v[i] = object.v[i] >>> 0;
             }
+            if (object.b != null)
+                if (typeof object.b === "string")
+                    $util.base64.decode(object.b, message.b = $util.newBuffer($util.base64.length(object.b)), 0);
+                else if (object.b.length >= 0)
+                    message.b = object.b;
             return message;
         };
 
@@ -791,8 +910,16 @@ $root.index_buffer = (function() {
             var object = {};
             if (options.arrays || options.defaults)
                 object.v = [];
-            if (options.defaults)
+            if (options.defaults) {
                 object.idx = 0;
+                if (options.bytes === String)
+                    object.b = "";
+                else {
+                    object.b = [];
+                    if (options.bytes !== Array)
+                        object.b = $util.newBuffer(object.b);
+                }
+            }
             if (message.idx != null && message.hasOwnProperty("idx"))
                 object.idx = message.idx;
             if (message.v && message.v.length) {
@@ -800,6 +927,8 @@ $root.index_buffer = (function() {
                 for (var j = 0; j < message.v.length; ++j)
                     object.v[j] = message.v[j];
             }
+            if (message.b != null && message.hasOwnProperty("b"))
+                object.b = options.bytes === String ? $util.base64.encode(message.b, 0, message.b.length) : options.bytes === Array ? Array.prototype.slice.call(message.b) : message.b;
             return object;
         };
 
@@ -0,0 +1,394 @@
+import { readFileSync } from "node:fs";
+import type { DBInterface } from "../db/interfaces";
+import { HNSW } from "../hnsw";
+import type { DistanceFunction, DistanceMetric, Point } from "../types";
+import { compareNode, resolve_metric } from "../utils";
+
+/**
+ * Benchmark harness for tuning HNSW parameters.
+ *
+ * Loads standard ANN datasets (`.fvecs`, `.ivecs`, `.bvecs` as published with SIFT/GIST,
+ * or JSON arrays like `test/data/data.json`), builds indexes over any `DBInterface` for
+ * a grid of parameters, and reports recall@K against ground truth, QPS and storage
+ * reads per query.
+ *
+ * @example
+ * ```typescript
+ * const dataset = load_dataset({
+ *   base: "sift/sift_base.fvecs",
+ *   queries: "sift/sift_query.fvecs",
+ *   groundTruth: "sift/sift_groundtruth.ivecs",
+ *   limit: 10_000,
+ * });
+ *
+ * const results = await run_benchmark({
+ *   dataset,
+ *   createDb: () => new EizenMemory(sdk),
+ *   metric: "l2", // the metric of the ground truth
+ *   m: [8, 16],
+ *   efConstruction: [128, 200],
+ *   ef: [20, 50, 100],
+ * });
+ * console.log(format_benchmark(results));
+ * ```
+ */
+
+/** A dataset to benchmark with */
+export type Dataset = {
+	/** Vectors to index */
+	base: Point[];
+	/** Query vectors */
+	queries: Point[];
+	/**
+	 * Indices (into `base`) of the exact nearest neighbors of each query, closest first.
+	 * Computed by brute force if not given.
+	 */
+	groundTruth?: number[][];
+};
+
+/** Options of {@link run_benchmark} */
+export type BenchmarkOptions = {
+	dataset: Dataset;
+	/** Creates an empty database for each index that is built */
+	createDb: () => DBInterface<unknown>;
+	/** Number of neighbors to search for (default: 10) */
+	K?: number;
+	/** Values of `m` to benchmark (default: [16]) */
+	m?: number[];
+	/** Values of `ef_construction` to benchmark (default: [128]) */
+	efConstruction?: number[];
+	/** Values of `ef` (search) to benchmark for each index (default: [20]) */
+	ef?: number[];
+	/**
+	 * Distance metric of the indexes (default: `"cosine"`). Required with a given
+	 * `groundTruth`, which is only valid for the metric it was computed with.
+	 */
+	metric?: DistanceMetric;
+	/** Seed for the level assignment, so that runs are comparable (default: 42) */
+	seed?: number;
+	/** Number of vectors inserted at once with `insertMany` (default: 1000) */
+	batchSize?: number;
+	/** Called with each result as soon as it is measured, e.g. to report progress */
+	onResult?: (result: BenchmarkResult) => void;
+};
+
+/** Measurements of a single parameter combination */
+export type BenchmarkResult = {
+	m: number;
+	efConstruction: number;
+	ef: number;
+	/** Mean fraction of the true K nearest neighbors that were found */
+	recall: number;
+	/** Queries per second, running one query at a time */
+	qps: number;
+	/** Mean latency of a query, in milliseconds */
+	meanLatencyMs: number;
+	/** 99th percentile latency of a query, in milliseconds */
+	p99LatencyMs: number;
+	/** Mean number of read calls to the database per query (round trips) */
+	readsPerQuery: number;
+	/** Mean number of keys read from the database per query */
+	keysPerQuery: number;
+	/** Time to build the index, in seconds */
+	buildSeconds: number;
+};
+
+/** Read statistics of a database, see {@link count_reads} */
+export type ReadStats = {
+	/** Number of read calls */
+	calls: number;
+	/** Number of keys read, a batched call counts all of its keys */
+	keys: number;
+};
+
+/**
+ * Reads vectors in the `.fvecs` format: each vector is stored as its dimension
+ * (int32, little-endian) followed by its components (float32, little-endian).
+ *
+ * @param data Path to the file, or its contents
+ * @param limit Maximum number of vectors to read (default: all)
+ * @throws Error if the data is truncated or malformed
+ */
+export function read_fvecs(data: string | Uint8Array, limit?: number): Point[] {
+	return read_vecs(
+		data,
+		4,
+		(view, offset) => view.getFloat32(offset, true),
+		limit,
+	);
+}
+
+/**
+ * Reads vectors in the `.ivecs` format, like `.fvecs` but with int32 components.
+ * Ground truth files of ANN datasets use this format.
+ *
+ * @param data Path to the file, or its contents
+ * @param limit Maximum number of vectors to read (default: all)
+ * @throws Error if the data is truncated or malformed
+ */
+export function read_ivecs(
+	data: string | Uint8Array,
+	limit?: number,
+): number[][] {
+	return read_vecs(
+		data,
+		4,
+		(view, offset) => view.getInt32(offset, true),
+		limit,
+	);
+}
+
+/**
+ * Reads vectors in the `.bvecs` format, like `.fvecs` but with uint8 components.
+ *
+ * @param data Path to the file, or its contents
+ * @param limit Maximum number of vectors to read (default: all)
+ * @throws Error if the data is truncated or malformed
+ */
+export function read_bvecs(data: string | Uint8Array, limit?: number): Point[] {
+	return read_vecs(data, 1, (view, offset) => view.getUint8(offset), limit);
+}
+
+/**
+ * Reads vectors from a file by its extension: `.fvecs`, `.ivecs`, `.bvecs`, or `.json`
+ * with an array of vectors (like `test/data/data.json`).
+ *
+ * @param path Path to the file
+ * @param limit Maximum number of vectors to read (default: all)
+ * @throws Error if the extension is not supported
+ */
+export function read_vectors(path: string, limit?: number): number[][] {
+	const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+	switch (extension) {
+		case "fvecs":
+			return read_fvecs(path, limit);
+		case "ivecs":
+			return read_ivecs(path, limit);
+		case "bvecs":
+			return read_bvecs(path, limit);
+		case "json": {
+			const vectors: number[][] = JSON.parse(readFileSync(path, "utf-8"));
+			return limit === undefined ? vectors : vectors.slice(0, limit);
+		}
+		default:
+			throw new Error(`Unsupported vector file format ".${extension}"`);
+	}
+}
+
+/**
+ * Loads a dataset from files, see {@link read_vectors} for the supported formats.
+ *
+ * @param paths Files of the base vectors, the queries and optionally the ground truth
+ * @param paths.limit Maximum number of base vectors to load (default: all). As the ground
+ *   truth refers to all base vectors, it is left out when the base vectors are limited.
+ * @param paths.queryLimit Maximum number of queries to load (default: all)
+ */
+export function load_dataset(paths: {
+	base: string;
+	queries: string;
+	groundTruth?: string;
+	limit?: number;
+	queryLimit?: number;
+}): Dataset {
+	const base = read_vectors(paths.base, paths.limit);
+	const queries = read_vectors(paths.queries, paths.queryLimit);
+	const groundTruth =
+		paths.groundTruth && paths.limit === undefined
+			? read_vectors(paths.groundTruth, paths.queryLimit)
+			: undefined;
+	return { base, queries, groundTruth };
+}
+
+/**
+ * Computes the exact K nearest neighbors of each query by brute force.
+ *
+ * @param base Indexed vectors
+ * @param queries Query vectors
+ * @param K Number of neighbors
+ * @param distance Distance function of the index
+ * @returns Indices into `base` of the neighbors of each query, closest first
+ */
+export function ground_truth(
+	base: Point[],
+	queries: Point[],
+	K: number,
+	distance: DistanceFunction,
+): number[][] {
+	return queries.map((q) =>
+		base
+			.map((p, i) => [distance(p, q), i] as [number, number])
+			.sort(compareNode)
+			.slice(0, K)
+			.map(([, i]) => i),
+	);
+}
+
+/**
+ * Wraps a database to count its reads.
+ *
+ * @param db The database to wrap
+ * @returns The wrapped database, and its statistics which are updated on every read
+ */
+export function count_reads<M>(db: DBInterface<M>): {
+	db: DBInterface<M>;
+	stats: ReadStats;
+} {
+	const stats: ReadStats = { calls: 0, keys: 0 };
+	const counted = new Proxy(db, {
+		get(target, prop, receiver) {
+			const value = Reflect.get(target, prop, receiver);
+			if (
+				typeof value !== "function" ||
+				typeof prop !== "string" ||
+				!(prop.startsWith("get_") || prop.startsWith("has_"))
+			) {
+				return value;
+			}
+
+			return (...args: unknown[]) => {
+				stats.calls++;
+				// batched reads take an array of indices, as their last argument
+				const idxs = args.find((arg) => Array.isArray(arg));
+				stats.keys += Array.isArray(idxs) ? idxs.length : 1;
+				return value.apply(target, args);
+			};
+		},
+	});
+	return { db: counted, stats };
+}
+
+/**
+ * Builds an index for each combination of `m` and `efConstruction`, and measures the
+ * searches of all queries for each `ef`.
+ *
+ * Indexes are built with `insertMany` in a fresh database from `createDb`, with a fixed
+ * seed so that runs are comparable. Queries run one at a time, so that latencies are not
+ * skewed by concurrency.
+ *
+ * @param options The dataset, database factory and parameter grid
+ * @returns The measurements of every parameter combination
+ * @throws Error if the dataset has ground truth but no metric is given
+ * @throws Error if a database from `createDb` is not empty
+ */
+export async function run_benchmark(
+	options: BenchmarkOptions,
+): Promise<BenchmarkResult[]> {
+	const { dataset, K = 10, batchSize = 1000, seed = 42 } = options;
+	if (dataset.groundTruth && options.metric === undefined) {
+		throw new Error(
+			'A metric is required with ground truth, e.g. "l2" for SIFT and GIST',
+		);
+	}
+	const metric = options.metric ?? "cosine";
+
+	const truth =
+		dataset.groundTruth?.map((ids) => ids.slice(0, K)) ??
+		ground_truth(
+			dataset.base,
+			dataset.queries,
+			K,
+			resolve_metric(metric).distance,
+		);
+
+	const results: BenchmarkResult[] = [];
+	for (const m of options.m ?? [16]) {
+		for (const efConstruction of options.efConstruction ?? [128]) {
+			const { db, stats } = count_reads(options.createDb());
+			if ((await db.get_datasize()) !== 0) {
+				throw new Error("Benchmark databases must be empty");
+			}
+			const hnsw = new HNSW(db, m, efConstruction, K, { metric, seed });
+
+			const buildStart = performance.now();
+			for (let i = 0; i < dataset.base.length; i += batchSize) {
+				await hnsw.insertMany(dataset.base.slice(i, i + batchSize));
+			}
+			const buildSeconds = (performance.now() - buildStart) / 1000;
+
+			for (const ef of options.ef ?? [20]) {
+				const latencies: number[] = [];
+				let found = 0;
+				stats.calls = 0;
+				stats.keys = 0;
+
+				for (const [i, q] of dataset.queries.entries()) {
+					const start = performance.now();
+					const res = await hnsw.knn_search(q, K, { ef });
+					latencies.push(performance.now() - start);
+
+					const expected = new Set(truth[i]);
+					found += res.filter((r) => expected.has(r.id)).length;
+				}
+
+				const n = dataset.queries.length;
+				const total = latencies.reduce((a, b) => a + b, 0);
+				latencies.sort((a, b) => a - b);
+
+				const result: BenchmarkResult = {
+					m,
+					efConstruction,
+					ef,
+					recall: found / (n * K),
+					qps: total > 0 ? (n * 1000) / total : 0,
+					meanLatencyMs: total / n,
+					p99LatencyMs: latencies[Math.min(n - 1, Math.floor(n * 0.99))],
+					readsPerQuery: stats.calls / n,
+					keysPerQuery: stats.keys / n,
+					buildSeconds,
+				};
+				options.onResult?.(result);
+				results.push(result);
+			}
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Formats benchmark results as a Markdown table.
+ *
+ * @param results Results of {@link run_benchmark}
+ */
+export function format_benchmark(results: BenchmarkResult[]): string {
+	const header =
+		"| m | ef_construction | ef | recall | QPS | mean (ms) | p99 (ms) | reads/query | keys/query | build (s) |";
+	const separator = `|${" --- |".repeat(10)}`;
+	const rows = results.map(
+		(r) =>
+			`| ${r.m} | ${r.efConstruction} | ${r.ef} | ${r.recall.toFixed(4)} | ${r.qps.toFixed(1)} | ${r.meanLatencyMs.toFixed(2)} | ${r.p99LatencyMs.toFixed(2)} | ${r.readsPerQuery.toFixed(1)} | ${r.keysPerQuery.toFixed(1)} | ${r.buildSeconds.toFixed(2)} |`,
+	);
+	return [header, separator, ...rows].join("\n");
+}
+
+/** Reads `.*vecs` data, with the given component size and reader */
+function read_vecs(
+	data: string | Uint8Array,
+	size: number,
+	read: (view: DataView, offset: number) => number,
+	limit = Number.POSITIVE_INFINITY,
+): number[][] {
+	const bytes = typeof data === "string" ? readFileSync(data) : data;
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+	const vectors: number[][] = [];
+	let offset = 0;
+	while (offset < bytes.byteLength && vectors.length < limit) {
+		if (offset + 4 > bytes.byteLength) {
+			throw new Error(`Truncated vector header at byte ${offset}`);
+		}
+		const dim = view.getInt32(offset, true);
+		if (dim <= 0 || offset + 4 + dim * size > bytes.byteLength) {
+			throw new Error(`Invalid vector of dimension ${dim} at byte ${offset}`);
+		}
+		offset += 4;
+
+		const vector = new Array<number>(dim);
+		for (let i = 0; i < dim; i++) {
+			vector[i] = read(view, offset + i * size);
+		}
+		vectors.push(vector);
+		offset += dim * size;
+	}
+	return vectors;
+}
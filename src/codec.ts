@@ -1,28 +1,314 @@
 import { index_buffer } from "../proto/hnsw_comm";
 
-/** Encodes a point to protobuf & base64's it. */
-export function encodePoint(q: index_buffer.IPoint): string {
+/**
+ * Binary codec of the values stored by `EizenMemory`.
+ *
+ * Every value is a protobuf message (see `proto/hnsw_comm.proto`) wrapped in a small
+ * envelope:
+ *
+ * ```
+ * [0xE7] [version] [flags] [protobuf payload ...] [CRC-32 of the payload, if flagged]
+ * ```
+ *
+ * Indexes live on a permanent chain, so values written by any release must stay
+ * readable: decoders accept every version up to `CODEC_VERSION`, including the bare
+ * protobuf messages written before the envelope existed (version 0). Those never start
+ * with `0xE7`, as the first byte of our messages is the tag of a field below 16.
+ * Values of a newer version than the decoder knows are rejected instead of misread.
+ *
+ * When the schema changes, bump `CODEC_VERSION`, decode the payloads of older versions
+ * with their own schema, and rewrite existing indexes with `migrate_codec`.
+ *
+ * The envelope is written to stores as they can hold it: contracts only hold strings,
+ * so it is base64 encoded for them (`encodePoint` etc., see `base64Values`), while stores
+ * of binary values keep the raw bytes (`encodePointBytes` etc., see `rawValues`).
+ * Decoders accept both.
+ */
+
+/** Latest version of the codec, written by default */
+export const CODEC_VERSION = 2;
+
+/** First byte of every enveloped value */
+const MAGIC = 0xe7;
+
+/** Flag of values that end with a checksum of their payload */
+const FLAG_CHECKSUM = 0b1;
+
+/** Options of the encoders */
+export type CodecOptions = {
+	/**
+	 * Version of the format to write (default: `CODEC_VERSION`). Version 0 writes bare
+	 * protobuf messages, which releases without versioning can still read.
+	 */
+	version?: number;
+	/** Append a CRC-32 checksum of the payload, verified when decoding (default: false) */
+	checksum?: boolean;
+	/**
+	 * Encoding of the neighbors of nodes (default: `"map"`). `"map"` stores the distance of
+	 * every neighbor next to its id, `"compact"` stores the sorted ids as packed varint
+	 * deltas, and their distances only with `distances`. Compact nodes need version 2.
+	 */
+	neighbors?: "map" | "compact";
+	/** Keep the distances of neighbors in compact nodes (default: false) */
+	distances?: boolean;
+};
+
+/** CRC-32 lookup table (IEEE polynomial) */
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+/** Computes the CRC-32 checksum of some bytes */
+export function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const b of bytes) {
+		crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts the bytes of encoded values to the values of a store, and back.
+ *
+ * Vectors, codes and nodes are stored as bytes, while counters, the configuration and
+ * metadata are stored as text, so both must round-trip. An empty value reads as missing.
+ *
+ * @template V Type of the values of the store
+ */
+export type ValueCodec<V extends string | Uint8Array> = {
+	/** Converts encoded bytes to a stored value */
+	from_bytes(bytes: Uint8Array): V;
+	/** Converts a stored value back to the encoded bytes */
+	to_bytes(value: V): Uint8Array;
+	/** Converts text to a stored value */
+	from_text(text: string): V;
+	/** Converts a stored value back to text */
+	to_text(value: V): string;
+};
+
+/** Stores bytes as base64 strings and text as it is, for stores of strings such as contracts */
+export const base64Values: ValueCodec<string> = {
+	from_bytes: (bytes) => Buffer.from(bytes).toString("base64"),
+	to_bytes: (value) => Buffer.from(value, "base64"),
+	from_text: (text) => text,
+	to_text: (value) => value,
+};
+
+/** Stores bytes as they are and text as UTF-8, for stores of binary values such as Redis */
+export const rawValues: ValueCodec<Uint8Array> = {
+	from_bytes: (bytes) => bytes,
+	to_bytes: (value) => value,
+	from_text: (text) => Buffer.from(text, "utf-8"),
+	to_text: (value) => Buffer.from(value).toString("utf-8"),
+};
+
+/** Bytes of an encoded value, base64 decoded if it is a string (not copied otherwise) */
+function bytes_of(data: string | Uint8Array): Buffer {
+	return typeof data === "string"
+		? Buffer.from(data, "base64")
+		: Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Wraps a payload into the envelope of a version.
+ *
+ * @throws Error if the version is unknown
+ */
+function wrap(payload: Uint8Array, options: CodecOptions = {}): Uint8Array {
+	const { version = CODEC_VERSION, checksum = false } = options;
+	if (!Number.isInteger(version) || version < 0 || version > CODEC_VERSION) {
+		throw new Error(`Unsupported codec version ${version}`);
+	}
+	if (version === 0) {
+		if (checksum) {
+			throw new Error("Codec version 0 does not support checksums");
+		}
+		return payload;
+	}
+
+	const out = Buffer.alloc(3 + payload.length + (checksum ? 4 : 0));
+	out[0] = MAGIC;
+	out[1] = version;
+	out[2] = checksum ? FLAG_CHECKSUM : 0;
+	out.set(payload, 3);
+	if (checksum) {
+		out.writeUInt32BE(crc32(payload), 3 + payload.length);
+	}
+	return out;
+}
+
+/**
+ * Unwraps an encoded value, verifying its checksum if it has one.
+ *
+ * @returns The version of the value (0 for bare protobuf) and its payload
+ * @throws Error if the version is newer than this codec, or the checksum does not match
+ */
+function unwrap(data: string | Uint8Array): {
+	version: number;
+	payload: Uint8Array;
+} {
+	const bytes = bytes_of(data);
+	if (bytes.length === 0 || bytes[0] !== MAGIC) {
+		return { version: 0, payload: bytes };
+	}
+
+	const version = bytes[1];
+	if (version === undefined || version < 1 || version > CODEC_VERSION) {
+		throw new Error(`Unsupported codec version ${version}`);
+	}
+	const flags = bytes[2];
+	if (flags & FLAG_CHECKSUM) {
+		if (bytes.length < 7) {
+			throw new Error("Checksum mismatch, the value is corrupted");
+		}
+		const payload = bytes.subarray(3, bytes.length - 4);
+		if (bytes.readUInt32BE(bytes.length - 4) !== crc32(payload)) {
+			throw new Error("Checksum mismatch, the value is corrupted");
+		}
+		return { version, payload };
+	}
+	return { version, payload: bytes.subarray(3) };
+}
+
+/**
+ * Reads the codec version of an encoded value, without decoding it.
+ *
+ * @returns The version, 0 for values written before the envelope existed
+ */
+export function codec_version(data: string | Uint8Array): number {
+	const bytes = bytes_of(data);
+	return bytes[0] === MAGIC ? bytes[1] : 0;
+}
+
+// all versions share the protobuf schema, version 2 only adds the compact neighbors
+// of nodes, so payloads are decoded the same way
+
+/** Encodes a point to protobuf bytes. */
+export function encodePointBytes(
+	q: index_buffer.IPoint,
+	options?: CodecOptions,
+): Uint8Array {
 	const qe = index_buffer.Point.encode(q).finish();
-	return Buffer.from(qe).toString("base64");
+	return wrap(qe, options);
 }
 
-/** Decodes a point from base64 encoded protobuf. */
-export function decodePoint(data: string): index_buffer.IPoint {
-	const dec = Buffer.from(data, "base64");
-	return index_buffer.Point.decode(dec);
+/** Encodes a point to protobuf & base64's it. */
+export function encodePoint(
+	q: index_buffer.IPoint,
+	options?: CodecOptions,
+): string {
+	return base64Values.from_bytes(encodePointBytes(q, options));
 }
 
-/** Encodes a layerNode to protobuf & base64's it. */
-export function encodeLayerNode(n: index_buffer.ILayerNode): string {
-	const ne = index_buffer.LayerNode.encode({
+/** Decodes a point from protobuf bytes, or their base64 encoding. */
+export function decodePoint(data: string | Uint8Array): index_buffer.IPoint {
+	const { payload } = unwrap(data);
+	return index_buffer.Point.decode(payload);
+}
+
+/**
+ * Encodes the codes of a quantized point to protobuf bytes.
+ * Codes that all fit in 8 bits are packed as one byte each.
+ */
+export function encodePointQuantBytes(
+	q: index_buffer.IPointQuant,
+	options?: CodecOptions,
+): Uint8Array {
+	const v = q.v ?? [];
+	const packed = v.length !== 0 && v.every((c) => c >= 0 && c <= 255);
+	const qe = index_buffer.PointQuant.encode(
+		packed ? { idx: q.idx, b: Uint8Array.from(v) } : q,
+	).finish();
+	return wrap(qe, options);
+}
+
+/** Encodes the codes of a quantized point to protobuf & base64's it. */
+export function encodePointQuant(
+	q: index_buffer.IPointQuant,
+	options?: CodecOptions,
+): string {
+	return base64Values.from_bytes(encodePointQuantBytes(q, options));
+}
+
+/** Decodes the codes of a quantized point from protobuf bytes (or base64), unpacking bytes into `v`. */
+export function decodePointQuant(
+	data: string | Uint8Array,
+): index_buffer.IPointQuant {
+	const { payload } = unwrap(data);
+	const q = index_buffer.PointQuant.decode(payload);
+	return q.b.length !== 0 ? { idx: q.idx, v: Array.from(q.b) } : q;
+}
+
+/**
+ * Encodes a layerNode to protobuf bytes.
+ * With compact neighbors, ids are sorted and delta-encoded, so that most take one byte.
+ *
+ * @throws Error if compact neighbors are requested for a version below 2
+ */
+export function encodeLayerNodeBytes(
+	n: index_buffer.ILayerNode,
+	options: CodecOptions = {},
+): Uint8Array {
+	const node: index_buffer.ILayerNode = {
 		...n,
-		visible: n.visible || true, // is visible unless otherwise specified
-	}).finish();
-	return Buffer.from(ne).toString("base64");
+		visible: n.visible ?? true, // is visible unless otherwise specified
+	};
+
+	if (options.neighbors === "compact") {
+		const version = options.version ?? CODEC_VERSION;
+		if (version < 2) {
+			throw new Error(
+				`Codec version ${version} does not support compact neighbors`,
+			);
+		}
+
+		const neighbors = Object.entries(n.neighbors ?? {})
+			.map(([k, dist]) => [Number.parseInt(k), dist] as const)
+			.sort((a, b) => a[0] - b[0]);
+		node.neighbors = {};
+		node.ids = neighbors.map(([id], i) =>
+			i === 0 ? id : id - neighbors[i - 1][0],
+		);
+		node.distances = options.distances ? neighbors.map(([, d]) => d) : [];
+	}
+
+	const ne = index_buffer.LayerNode.encode(node).finish();
+	return wrap(ne, options);
 }
 
-/** Decodes a layerNode from base64 encoded protobuf. */
-export function decodeLayerNode(data: string): index_buffer.ILayerNode {
-	const dec = Buffer.from(data, "base64");
-	return index_buffer.LayerNode.decode(dec);
+/** Encodes a layerNode to protobuf & base64's it. */
+export function encodeLayerNode(
+	n: index_buffer.ILayerNode,
+	options?: CodecOptions,
+): string {
+	return base64Values.from_bytes(encodeLayerNodeBytes(n, options));
+}
+
+/**
+ * Decodes a layerNode from protobuf bytes, or their base64 encoding.
+ * Neighbors of compact nodes that were stored without distances get a NaN distance.
+ */
+export function decodeLayerNode(
+	data: string | Uint8Array,
+): index_buffer.ILayerNode {
+	const { payload } = unwrap(data);
+	const node = index_buffer.LayerNode.decode(payload);
+	if (node.ids.length === 0) return node;
+
+	const neighbors: Record<number, number> = {};
+	let id = 0;
+	node.ids.forEach((delta, i) => {
+		id += delta;
+		neighbors[id] = node.distances[i] ?? Number.NaN;
+	});
+	return {
+		idx: node.idx,
+		level: node.level,
+		visible: node.visible,
+		neighbors,
+	};
 }
@@ -0,0 +1,480 @@
+import type { Graph, IndexConfig, LayerNode, Point } from "../../types";
+import type { DBInterface } from "../interfaces";
+
+/**
+ * BatchMemory - A write-back overlay that stages changes on top of another database
+ *
+ * All writes are kept in memory until `flush` is called, which then commits them to
+ * the underlying database with as few calls as possible: one `new_points` (or
+ * `new_codes`), one `set_metadatas` and one `upsert_neighbors` per layer. Reads are served from the
+ * staged changes first, and values read from the underlying database are cached,
+ * so that consecutive operations in the same batch share their reads.
+ *
+ * This is used by `HNSW.insertMany`, as every single-point insert otherwise makes
+ * many separate writes, which is very slow on contract-backed storage.
+ *
+ * NOTE: The underlying database must not be written to by anyone else while a batch
+ * is open, otherwise the indices assigned to new points will not match.
+ *
+ * @template M - Type for optional metadata associated with points
+ */
+export class BatchMemory<M = unknown> implements DBInterface<M> {
+	/** The database that the batch is committed to */
+	base: DBInterface<M>;
+
+	// staged writes
+	private points = new Map<number, Point>();
+	private newPoints: number[] = [];
+	private codes = new Map<number, number[]>();
+	private newCodes: number[] = [];
+	private metadatas = new Map<number, M>();
+	private nodes = new Map<number, Graph>(); // dirty nodes, per layer
+	private newLayers: number[] = []; // node that created each new layer
+	private visibility = new Map<number, boolean>();
+	private ep: number | null | undefined;
+	private metric: string | null | undefined;
+	private config: IndexConfig | null | undefined;
+	private quantizer: string | null | undefined;
+	private dirtyEp = false;
+	private dirtyConfig = false;
+	private dirtyQuantizer = false;
+
+	// cached reads & counters
+	private cachedPoints = new Map<number, Point>();
+	private cachedCodes = new Map<number, number[]>();
+	private cachedNodes = new Map<number, Graph>();
+	private datasize: number | undefined;
+	private numLayers: number | undefined;
+
+	constructor(base: DBInterface<M>) {
+		this.base = base;
+	}
+
+	// === Entry Point Management ===
+
+	async get_ep(): Promise<number | null> {
+		if (this.ep === undefined) {
+			this.ep = await this.base.get_ep();
+		}
+		return this.ep;
+	}
+
+	/** Staged until flush */
+	async set_ep(ep: number): Promise<void> {
+		this.ep = ep;
+		this.dirtyEp = true;
+	}
+
+	// === Index Configuration ===
+
+	async get_metric(): Promise<string | null> {
+		if (this.metric === undefined) {
+			this.metric = await this.base.get_metric();
+		}
+		return this.metric;
+	}
+
+	async get_config(): Promise<IndexConfig | null> {
+		if (this.config === undefined) {
+			this.config = await this.base.get_config();
+		}
+		return this.config;
+	}
+
+	/** Staged until flush */
+	async set_config(config: IndexConfig): Promise<void> {
+		this.config = config;
+		this.dirtyConfig = true;
+	}
+
+	// === Write Lease ===
+
+	/** Not staged, the lease must be visible to other writers right away */
+	async get_lease(): Promise<string | null> {
+		return this.base.get_lease();
+	}
+
+	/** Not staged, the lease must be visible to other writers right away */
+	async set_lease(lease: string | null): Promise<void> {
+		await this.base.set_lease(lease);
+	}
+
+	// === Point (Vector) Operations ===
+
+	async get_point(idx: number): Promise<Point> {
+		const [point] = await this.get_points([idx]);
+		return point;
+	}
+
+	/**
+	 * Retrieve multiple points, reading only those that are neither staged
+	 * nor cached from the underlying database
+	 */
+	async get_points(idxs: number[]): Promise<Point[]> {
+		const missing = [
+			...new Set(
+				idxs.filter(
+					(idx) => !this.points.has(idx) && !this.cachedPoints.has(idx),
+				),
+			),
+		];
+		if (missing.length !== 0) {
+			const points = await this.base.get_points(missing);
+			missing.forEach((idx, i) => this.cachedPoints.set(idx, points[i]));
+		}
+
+		return idxs.map(
+			(idx) => (this.points.get(idx) ?? this.cachedPoints.get(idx)) as Point,
+		);
+	}
+
+	/** Assigns the next index to the point, staged until flush */
+	async new_point(q: Point): Promise<number> {
+		const idx = await this.get_datasize();
+		this.points.set(idx, q);
+		this.newPoints.push(idx);
+		this.datasize = idx + 1;
+		return idx;
+	}
+
+	async new_points(qs: Point[]): Promise<number[]> {
+		const idxs: number[] = [];
+		for (const q of qs) {
+			idxs.push(await this.new_point(q));
+		}
+		return idxs;
+	}
+
+	/** Staged until flush */
+	async set_point(idx: number, q: Point): Promise<void> {
+		this.points.set(idx, q);
+	}
+
+	/** Stages the new vectors of existing points until flush */
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		idxs.forEach((idx, i) => this.points.set(idx, qs[i]));
+	}
+
+	// === Quantized Point Operations ===
+
+	/** Assigns the next indices to the codes, staged until flush */
+	async new_codes(codes: number[][]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = codes.map((v, i) => {
+			const idx = datasize + i;
+			this.codes.set(idx, v);
+			this.newCodes.push(idx);
+			return idx;
+		});
+		this.datasize = datasize + codes.length;
+		return idxs;
+	}
+
+	/** Staged until flush */
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		idxs.forEach((idx, i) => this.codes.set(idx, codes[i]));
+	}
+
+	/**
+	 * Retrieve the codes of multiple points, reading only those that are neither
+	 * staged nor cached from the underlying database
+	 */
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		const missing = [
+			...new Set(
+				idxs.filter(
+					(idx) => !this.codes.has(idx) && !this.cachedCodes.has(idx),
+				),
+			),
+		];
+		if (missing.length !== 0) {
+			const codes = await this.base.get_codes(missing);
+			missing.forEach((idx, i) => this.cachedCodes.set(idx, codes[i]));
+		}
+
+		return idxs.map(
+			(idx) => (this.codes.get(idx) ?? this.cachedCodes.get(idx)) as number[],
+		);
+	}
+
+	async get_quantizer(): Promise<string | null> {
+		if (this.quantizer === undefined) {
+			this.quantizer = await this.base.get_quantizer();
+		}
+		return this.quantizer;
+	}
+
+	/** Staged until flush */
+	async set_quantizer(quantizer: string): Promise<void> {
+		this.quantizer = quantizer;
+		this.dirtyQuantizer = true;
+	}
+
+	async get_datasize(): Promise<number> {
+		if (this.datasize === undefined) {
+			this.datasize = await this.base.get_datasize();
+		}
+		return this.datasize;
+	}
+
+	// === Graph Structure Queries ===
+
+	async get_num_layers(): Promise<number> {
+		if (this.numLayers === undefined) {
+			this.numLayers = await this.base.get_num_layers();
+		}
+		return this.numLayers;
+	}
+
+	// === Neighbor (Graph Edge) Operations ===
+
+	async get_neighbor(layer: number, idx: number): Promise<LayerNode> {
+		const graph = await this.get_neighbors(layer, [idx]);
+		return graph[idx];
+	}
+
+	/**
+	 * Retrieve neighbor connections for multiple nodes, reading only those that
+	 * are neither staged nor cached from the underlying database
+	 */
+	async get_neighbors(layer: number, idxs: number[]): Promise<Graph> {
+		const staged = this.nodes.get(layer) ?? {};
+		const cached = this.layerCache(layer);
+
+		const missing = [
+			...new Set(idxs.filter((idx) => !(idx in staged) && !(idx in cached))),
+		];
+		if (missing.length !== 0) {
+			Object.assign(cached, await this.base.get_neighbors(layer, missing));
+		}
+
+		// copies, so that callers can modify them without touching the staged ones
+		return Object.fromEntries(
+			idxs.map((idx) => [idx, { ...(staged[idx] ?? cached[idx]) }]),
+		);
+	}
+
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		const staged = this.nodes.get(layer) ?? {};
+		const cached = this.layerCache(layer);
+
+		const missing = idxs.filter((idx) => !(idx in staged) && !(idx in cached));
+		const exists =
+			missing.length !== 0 ? await this.base.has_neighbors(layer, missing) : [];
+
+		return idxs.map((idx) => {
+			const i = missing.indexOf(idx);
+			return i === -1 ? true : exists[i];
+		});
+	}
+
+	/** Staged until flush */
+	async upsert_neighbor(
+		layer: number,
+		idx: number,
+		node: LayerNode,
+		visible = true,
+	): Promise<void> {
+		const staged = this.nodes.get(layer) ?? {};
+		staged[idx] = { ...node };
+		this.nodes.set(layer, staged);
+		if (layer === 0) {
+			this.visibility.set(idx, visible);
+		}
+	}
+
+	/** Staged until flush */
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted: number[] = [],
+	): Promise<void> {
+		for (const idx of Object.keys(nodes)) {
+			const i = Number.parseInt(idx);
+			await this.upsert_neighbor(layer, i, nodes[i], !deleted.includes(i));
+		}
+	}
+
+	/** Creates a new layer with the given node, staged until flush */
+	async new_neighbor(idx: number): Promise<void> {
+		const l = await this.get_num_layers();
+		await this.upsert_neighbor(l, idx, {});
+		this.newLayers.push(idx);
+		this.numLayers = l + 1;
+	}
+
+	// === Deletion (Tombstones) ===
+
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		const missing = [
+			...new Set(idxs.filter((idx) => !this.visibility.has(idx))),
+		];
+		if (missing.length !== 0) {
+			const visibilities = await this.base.get_visibilities(missing);
+			missing.forEach((idx, i) => this.visibility.set(idx, visibilities[i]));
+		}
+		return idxs.map((idx) => this.visibility.get(idx) as boolean);
+	}
+
+	/** Staged until flush */
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		const node = await this.get_neighbor(0, idx);
+		await this.upsert_neighbor(0, idx, node, visible);
+	}
+
+	// === Metadata Operations ===
+
+	async get_metadata(idx: number): Promise<M | null> {
+		const [metadata] = await this.get_metadatas([idx]);
+		return metadata;
+	}
+
+	async get_metadatas(idxs: number[]): Promise<(M | null)[]> {
+		const missing = idxs.filter((idx) => !this.metadatas.has(idx));
+		const datas =
+			missing.length !== 0 ? await this.base.get_metadatas(missing) : [];
+
+		return idxs.map((idx) => {
+			const i = missing.indexOf(idx);
+			return i === -1 ? (this.metadatas.get(idx) as M) : datas[i];
+		});
+	}
+
+	/** Staged until flush */
+	async set_metadata(idx: number, data: M): Promise<void> {
+		this.metadatas.set(idx, data);
+	}
+
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		idxs.forEach((idx, i) => this.metadatas.set(idx, datas[i]));
+	}
+
+	// === Committing ===
+
+	/**
+	 * Commit all staged changes to the underlying database
+	 *
+	 * Points are written first and the entry point last, so that an interrupted
+	 * flush never leaves the entry point pointing to a missing node.
+	 *
+	 * @throws Error if the underlying database assigned different indices to the new points
+	 */
+	async flush(): Promise<void> {
+		// new points, in one batch
+		if (this.newPoints.length !== 0) {
+			const idxs = await this.base.new_points(
+				this.newPoints.map((idx) => this.points.get(idx) as Point),
+			);
+			if (idxs.some((idx, i) => idx !== this.newPoints[i])) {
+				throw new Error(
+					"Points were added to the database while a batch was open",
+				);
+			}
+		}
+
+		// overwritten existing points, in one batch
+		const overwritten = [...this.points.keys()].filter(
+			(idx) => !this.newPoints.includes(idx),
+		);
+		if (overwritten.length !== 0) {
+			await this.base.set_points(
+				overwritten,
+				overwritten.map((idx) => this.points.get(idx) as Point),
+			);
+		}
+
+		// new codes, in one batch
+		if (this.newCodes.length !== 0) {
+			const idxs = await this.base.new_codes(
+				this.newCodes.map((idx) => this.codes.get(idx) as number[]),
+			);
+			if (idxs.some((idx, i) => idx !== this.newCodes[i])) {
+				throw new Error(
+					"Points were added to the database while a batch was open",
+				);
+			}
+		}
+
+		// codes of existing points (or of new full points), in one batch
+		const codes = [...this.codes.keys()].filter(
+			(idx) => !this.newCodes.includes(idx),
+		);
+		if (codes.length !== 0) {
+			await this.base.set_codes(
+				codes,
+				codes.map((idx) => this.codes.get(idx) as number[]),
+			);
+		}
+
+		// metadata, in one batch
+		if (this.metadatas.size !== 0) {
+			await this.base.set_metadatas(
+				[...this.metadatas.keys()],
+				[...this.metadatas.values()],
+			);
+		}
+
+		// new layers must exist before their nodes are written
+		for (const idx of this.newLayers) {
+			await this.base.new_neighbor(idx);
+		}
+
+		// nodes, in one batch per layer
+		for (const [layer, nodes] of this.nodes) {
+			const deleted =
+				layer === 0
+					? Object.keys(nodes)
+							.map((idx) => Number.parseInt(idx))
+							.filter((idx) => this.visibility.get(idx) === false)
+					: [];
+			await this.base.upsert_neighbors(layer, nodes, deleted);
+		}
+
+		if (this.dirtyConfig && this.config) {
+			await this.base.set_config(this.config);
+		}
+		if (this.dirtyQuantizer && this.quantizer) {
+			await this.base.set_quantizer(this.quantizer);
+		}
+		if (this.dirtyEp && this.ep !== null && this.ep !== undefined) {
+			await this.base.set_ep(this.ep);
+		}
+
+		this.clear();
+	}
+
+	/** Drop all staged changes and cached reads */
+	clear(): void {
+		this.points.clear();
+		this.newPoints = [];
+		this.codes.clear();
+		this.newCodes = [];
+		this.metadatas.clear();
+		this.nodes.clear();
+		this.newLayers = [];
+		this.visibility.clear();
+		this.cachedPoints.clear();
+		this.cachedCodes.clear();
+		this.cachedNodes.clear();
+		this.ep = undefined;
+		this.metric = undefined;
+		this.config = undefined;
+		this.quantizer = undefined;
+		this.dirtyEp = false;
+		this.dirtyConfig = false;
+		this.dirtyQuantizer = false;
+		this.datasize = undefined;
+		this.numLayers = undefined;
+	}
+
+	/** Cached nodes read from the underlying database for a layer */
+	private layerCache(layer: number): Graph {
+		const cached = this.cachedNodes.get(layer) ?? {};
+		this.cachedNodes.set(layer, cached);
+		return cached;
+	}
+
+	toString() {
+		return `Batch over ${this.base}`;
+	}
+}
@@ -0,0 +1,516 @@
+import type { Graph, IndexConfig, LayerNode, Point } from "../../types";
+import type { DBInterface } from "../interfaces";
+
+/** Options of a {@link CachedDB} */
+export type CachedDBOptions = {
+	/**
+	 * Maximum number of cached points, nodes, visibilities and metadata values together;
+	 * the least recently used ones are evicted first (default: 10000)
+	 */
+	maxEntries?: number;
+};
+
+/**
+ * LRU - A bounded map that evicts its least recently used entries
+ *
+ * Relies on the insertion order of `Map`: entries are moved to the end when they
+ * are used, so the first entry is always the least recently used one.
+ */
+class LRU {
+	private entries = new Map<string, unknown>();
+
+	constructor(private maxEntries: number) {}
+
+	/** Number of cached entries */
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/** Get a value and mark it as recently used, `undefined` if it is not cached */
+	get(key: string): unknown {
+		const value = this.entries.get(key);
+		if (value !== undefined) {
+			this.entries.delete(key);
+			this.entries.set(key, value);
+		}
+		return value;
+	}
+
+	/** Cache a value, evicting the least recently used entries if the cache is full */
+	set(key: string, value: unknown): void {
+		this.entries.delete(key);
+		this.entries.set(key, value);
+		while (this.entries.size > this.maxEntries) {
+			const [oldest] = this.entries.keys();
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
+
+/** Cache keys of each kind of value */
+const keys = {
+	point: (idx: number) => `p:${idx}`,
+	codes: (idx: number) => `q:${idx}`,
+	node: (layer: number) => (idx: number) => `n:${layer}:${idx}`,
+	visibility: (idx: number) => `v:${idx}`,
+	metadata: (idx: number) => `m:${idx}`,
+} as const;
+
+/**
+ * CachedDB - A read-through cache in front of another database
+ *
+ * Decoded points, codes, nodes, visibilities and metadata are kept in a bounded LRU
+ * cache, and the entry point, number of layers, datasize, metric, config and quantizer
+ * are kept as well.
+ * Searches read the same upper-layer nodes and the same points around popular regions
+ * over and over, so on remote storage (such as a contract) most of their reads are
+ * served from memory.
+ *
+ * Writes go directly to the underlying database and invalidate the cached values they
+ * change. Reads that were running during a write are not cached, so that they can not
+ * bring back values from before the write.
+ *
+ * NOTE: Only writes made through this cache invalidate it. If other processes write to
+ * the same database, searches may see their changes late (or call `clear`).
+ *
+ * @template M - Type for optional metadata associated with points
+ *
+ * @example
+ * ```typescript
+ * const db = new CachedDB(new EizenMemory(contractSDK), { maxEntries: 50_000 });
+ * const hnsw = new HNSW(db, 16, 200, 50);
+ *
+ * await hnsw.knn_search(query, 10);
+ * console.log(`hit rate: ${db.hits / (db.hits + db.misses)}`);
+ * ```
+ */
+export class CachedDB<M = unknown> implements DBInterface<M> {
+	/** The database that reads and writes are delegated to */
+	base: DBInterface<M>;
+
+	/** Number of values that were served from the cache */
+	hits = 0;
+	/** Number of values that were read from the underlying database */
+	misses = 0;
+
+	private cache: LRU;
+	/** Incremented around every write, reads that overlap a write are not cached */
+	private version = 0;
+
+	// values that are the same for all reads
+	private ep: number | null | undefined;
+	private numLayers: number | undefined;
+	private datasize: number | undefined;
+	private metric: string | null | undefined;
+	private config: IndexConfig | null | undefined;
+	private quantizer: string | null | undefined;
+
+	constructor(base: DBInterface<M>, options: CachedDBOptions = {}) {
+		this.base = base;
+		this.cache = new LRU(options.maxEntries ?? 10000);
+	}
+
+	// === Entry Point Management ===
+
+	async get_ep(): Promise<number | null> {
+		if (this.ep !== undefined) return this.ep;
+		return this.read_value(
+			() => this.base.get_ep(),
+			(ep) => {
+				this.ep = ep;
+			},
+		);
+	}
+
+	async set_ep(ep: number): Promise<void> {
+		await this.write(
+			() => this.base.set_ep(ep),
+			() => {
+				this.ep = undefined;
+			},
+		);
+	}
+
+	// === Index Configuration ===
+
+	async get_metric(): Promise<string | null> {
+		if (this.metric !== undefined) return this.metric;
+		return this.read_value(
+			() => this.base.get_metric(),
+			(metric) => {
+				this.metric = metric;
+			},
+		);
+	}
+
+	async get_config(): Promise<IndexConfig | null> {
+		if (this.config !== undefined) return this.config;
+		return this.read_value(
+			() => this.base.get_config(),
+			(config) => {
+				this.config = config;
+			},
+		);
+	}
+
+	async set_config(config: IndexConfig): Promise<void> {
+		await this.write(
+			() => this.base.set_config(config),
+			() => {
+				this.config = undefined;
+			},
+		);
+	}
+
+	// === Write Lease ===
+
+	// the lease coordinates writers, it must never be cached
+
+	async get_lease(): Promise<string | null> {
+		return this.base.get_lease();
+	}
+
+	async set_lease(lease: string | null): Promise<void> {
+		await this.base.set_lease(lease);
+	}
+
+	// === Point (Vector) Operations ===
+
+	async get_point(idx: number): Promise<Point> {
+		const [point] = await this.get_points([idx]);
+		return point;
+	}
+
+	async get_points(idxs: number[]): Promise<Point[]> {
+		return this.read_many(idxs, keys.point, (missing) =>
+			this.base.get_points(missing),
+		);
+	}
+
+	async new_point(q: Point): Promise<number> {
+		return this.write(
+			() => this.base.new_point(q),
+			() => {
+				this.datasize = undefined;
+			},
+		);
+	}
+
+	async new_points(qs: Point[]): Promise<number[]> {
+		return this.write(
+			() => this.base.new_points(qs),
+			() => {
+				this.datasize = undefined;
+			},
+		);
+	}
+
+	async set_point(idx: number, q: Point): Promise<void> {
+		await this.write(
+			() => this.base.set_point(idx, q),
+			() => this.cache.delete(keys.point(idx)),
+		);
+	}
+
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		await this.write(
+			() => this.base.set_points(idxs, qs),
+			() => {
+				for (const idx of idxs) {
+					this.cache.delete(keys.point(idx));
+				}
+			},
+		);
+	}
+
+	// === Quantized Point Operations ===
+
+	async new_codes(codes: number[][]): Promise<number[]> {
+		return this.write(
+			() => this.base.new_codes(codes),
+			() => {
+				this.datasize = undefined;
+			},
+		);
+	}
+
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		await this.write(
+			() => this.base.set_codes(idxs, codes),
+			() => {
+				for (const idx of idxs) {
+					this.cache.delete(keys.codes(idx));
+				}
+			},
+		);
+	}
+
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		return this.read_many(idxs, keys.codes, (missing) =>
+			this.base.get_codes(missing),
+		);
+	}
+
+	async get_quantizer(): Promise<string | null> {
+		if (this.quantizer !== undefined) return this.quantizer;
+		return this.read_value(
+			() => this.base.get_quantizer(),
+			(quantizer) => {
+				this.quantizer = quantizer;
+			},
+		);
+	}
+
+	async set_quantizer(quantizer: string): Promise<void> {
+		await this.write(
+			() => this.base.set_quantizer(quantizer),
+			() => {
+				this.quantizer = undefined;
+			},
+		);
+	}
+
+	async get_datasize(): Promise<number> {
+		if (this.datasize !== undefined) return this.datasize;
+		return this.read_value(
+			() => this.base.get_datasize(),
+			(datasize) => {
+				this.datasize = datasize;
+			},
+		);
+	}
+
+	// === Graph Structure Queries ===
+
+	async get_num_layers(): Promise<number> {
+		if (this.numLayers !== undefined) return this.numLayers;
+		return this.read_value(
+			() => this.base.get_num_layers(),
+			(numLayers) => {
+				this.numLayers = numLayers;
+			},
+		);
+	}
+
+	// === Neighbor (Graph Edge) Operations ===
+
+	async get_neighbor(layer: number, idx: number): Promise<LayerNode> {
+		const graph = await this.get_neighbors(layer, [idx]);
+		return graph[idx];
+	}
+
+	async get_neighbors(layer: number, idxs: number[]): Promise<Graph> {
+		const nodes = await this.read_many(
+			idxs,
+			keys.node(layer),
+			async (missing) => {
+				const graph = await this.base.get_neighbors(layer, missing);
+				return missing.map((idx) => graph[idx]);
+			},
+		);
+
+		// nodes are modified by their readers, never hand out the cached objects
+		const graph: Graph = {};
+		idxs.forEach((idx, i) => {
+			if (nodes[i] !== undefined) graph[idx] = { ...nodes[i] };
+		});
+		return graph;
+	}
+
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		const node = keys.node(layer);
+		const missing = idxs.filter(
+			(idx) => this.cache.get(node(idx)) === undefined,
+		);
+		if (missing.length === 0) return idxs.map(() => true);
+
+		const found = await this.base.has_neighbors(layer, missing);
+		const linked = new Map(missing.map((idx, i) => [idx, found[i]]));
+		return idxs.map((idx) => linked.get(idx) ?? true);
+	}
+
+	async upsert_neighbor(
+		layer: number,
+		idx: number,
+		node: LayerNode,
+		visible?: boolean,
+	): Promise<void> {
+		await this.write(
+			() => this.base.upsert_neighbor(layer, idx, node, visible),
+			() => this.forget_nodes(layer, [idx]),
+		);
+	}
+
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted?: number[],
+	): Promise<void> {
+		await this.write(
+			() => this.base.upsert_neighbors(layer, nodes, deleted),
+			() => this.forget_nodes(layer, Object.keys(nodes).map(Number)),
+		);
+	}
+
+	async new_neighbor(idx: number): Promise<void> {
+		await this.write(
+			() => this.base.new_neighbor(idx),
+			() => {
+				this.numLayers = undefined;
+			},
+		);
+	}
+
+	// === Deletion (Tombstones) ===
+
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		return this.read_many(idxs, keys.visibility, (missing) =>
+			this.base.get_visibilities(missing),
+		);
+	}
+
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		await this.write(
+			() => this.base.set_visibility(idx, visible),
+			() => this.cache.delete(keys.visibility(idx)),
+		);
+	}
+
+	// === Metadata Operations ===
+
+	async get_metadata(idx: number): Promise<M | null> {
+		const [metadata] = await this.get_metadatas([idx]);
+		return metadata;
+	}
+
+	async get_metadatas(idxs: number[]): Promise<(M | null)[]> {
+		return this.read_many(idxs, keys.metadata, (missing) =>
+			this.base.get_metadatas(missing),
+		);
+	}
+
+	async set_metadata(idx: number, data: M): Promise<void> {
+		await this.write(
+			() => this.base.set_metadata(idx, data),
+			() => this.cache.delete(keys.metadata(idx)),
+		);
+	}
+
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		await this.write(
+			() => this.base.set_metadatas(idxs, datas),
+			() => {
+				for (const idx of idxs) {
+					this.cache.delete(keys.metadata(idx));
+				}
+			},
+		);
+	}
+
+	/** Number of cached points, nodes, visibilities and metadata values */
+	get size(): number {
+		return this.cache.size;
+	}
+
+	/** Drop all cached values, e.g. after another process wrote to the database */
+	clear(): void {
+		this.version++;
+		this.cache.clear();
+		this.ep = undefined;
+		this.numLayers = undefined;
+		this.datasize = undefined;
+		this.metric = undefined;
+		this.config = undefined;
+		this.quantizer = undefined;
+	}
+
+	/**
+	 * Read values by key from the cache, fetching the missing ones in a single call
+	 *
+	 * @param idxs Keys to read
+	 * @param key Cache key of an index
+	 * @param fetch Reads values from the underlying database
+	 */
+	private async read_many<V>(
+		idxs: number[],
+		key: (idx: number) => string,
+		fetch: (idxs: number[]) => Promise<V[]>,
+	): Promise<V[]> {
+		const version = this.version;
+		const values = idxs.map((idx) => this.cache.get(key(idx)) as V | undefined);
+		const missing = idxs.filter((_, i) => values[i] === undefined);
+		this.hits += idxs.length - missing.length;
+		if (missing.length === 0) return values as V[];
+
+		this.misses += missing.length;
+		const fetched = await fetch(missing);
+		const cache = version === this.version;
+		missing.forEach((idx, i) => {
+			// missing values (of points that do not exist yet) are not cached
+			if (cache && fetched[i] !== undefined) {
+				this.cache.set(key(idx), fetched[i]);
+			}
+		});
+
+		let j = 0;
+		return values.map((value) => (value === undefined ? fetched[j++] : value));
+	}
+
+	/**
+	 * Read a single value from the underlying database, caching it unless a write overlapped
+	 *
+	 * @param fetch Reads the value from the underlying database
+	 * @param store Caches the value
+	 */
+	private async read_value<V>(
+		fetch: () => Promise<V>,
+		store: (value: V) => void,
+	): Promise<V> {
+		const version = this.version;
+		const value = await fetch();
+		this.misses++;
+		if (version === this.version) store(value);
+		return value;
+	}
+
+	/**
+	 * Write to the underlying database, invalidating the values it changes afterwards
+	 * (even if it fails, as it may have been partially applied)
+	 *
+	 * @param fn Writes to the underlying database
+	 * @param invalidate Drops the cached values changed by the write
+	 */
+	private async write<T>(
+		fn: () => Promise<T>,
+		invalidate: () => void,
+	): Promise<T> {
+		this.version++;
+		try {
+			return await fn();
+		} finally {
+			invalidate();
+			this.version++;
+		}
+	}
+
+	/** Drop cached nodes, and their visibilities if they are in layer 0 */
+	private forget_nodes(layer: number, idxs: number[]): void {
+		const node = keys.node(layer);
+		for (const idx of idxs) {
+			this.cache.delete(node(idx));
+			if (layer === 0) this.cache.delete(keys.visibility(idx));
+		}
+	}
+
+	toString() {
+		return `Cached ${this.base}`;
+	}
+}
@@ -1,12 +1,48 @@
-/** KVdb key generators for different data types */
-export const keys = {
-	layers: "layers",
-	ep: "ep",
-	points: "points",
-	metadata: (idx: number) => `m:${idx}` as const,
-	point: (idx: number) => `${idx}` as const,
-	neighbor: (layer: number, idx: number) => `${layer}__${idx}` as const,
-} as const;
+/**
+ * KVdb key generators for different data types of an index
+ *
+ * The default collection uses unprefixed keys, so that indexes created before
+ * collections existed keep working. Keys of named collections are prefixed with
+ * `c:<name>:`, which never collides with an unprefixed key.
+ *
+ * @param collection Name of the collection (default: the default collection)
+ */
+export function keys_for(collection?: string) {
+	const prefix = collection === undefined ? "" : `c:${collection}:`;
+	return {
+		layers: `${prefix}layers`,
+		ep: `${prefix}ep`,
+		points: `${prefix}points`,
+		metric: `${prefix}metric`,
+		config: `${prefix}config`,
+		quantizer: `${prefix}quantizer`,
+		lease: `${prefix}lease`,
+		metadata: (idx: number) => `${prefix}m:${idx}`,
+		point: (idx: number) => `${prefix}${idx}`,
+		codes: (idx: number) => `${prefix}q:${idx}`,
+		neighbor: (layer: number, idx: number) => `${prefix}${layer}__${idx}`,
+	} as const;
+}
+
+/** Keys of the default collection */
+export const keys = keys_for();
+
+/** Key of the names of all named collections, as a JSON array */
+export const collectionsKey = "collections";
+
+/**
+ * Check that a collection name can be used in keys
+ *
+ * @param name Name of the collection
+ * @throws Error if the name is empty, too long or has other characters than letters, digits, `_` and `-`
+ */
+export function validate_collection(name: string): void {
+	if (!/^[A-Za-z0-9_-]{1,64}$/.test(name)) {
+		throw new Error(
+			`Invalid collection name "${name}", use 1-64 letters, digits, "_" or "-"`,
+		);
+	}
+}
 
 /** Parse JSON string, returns null for falsy values */
 export function safeParse<V = unknown>(
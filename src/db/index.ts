@@ -1,13 +1,23 @@
 import type { SetSDK } from "hollowdb";
 import {
+	type CodecOptions,
+	type ValueCodec,
+	base64Values,
 	decodeLayerNode,
 	decodePoint,
-	encodeLayerNode,
-	encodePoint,
+	decodePointQuant,
+	encodeLayerNodeBytes,
+	encodePointBytes,
+	encodePointQuantBytes,
 } from "../codec";
-import type { Graph, LayerNode, Point } from "../types";
-import { keys, safeParse } from "./common";
-import type { DBInterface } from "./interfaces";
+import type { Graph, IndexConfig, LayerNode, Point } from "../types";
+import {
+	collectionsKey,
+	keys_for,
+	safeParse,
+	validate_collection,
+} from "./common";
+import type { DBInterface, ValueStore } from "./interfaces";
 
 /**
  * EizenMemory - A distributed memory implementation for vector similarity search
@@ -21,24 +31,53 @@ import type { DBInterface } from "./interfaces";
  * - Neighbors: Connected nodes in each layer forming the searchable graph
  * - Entry Point (EP): Starting node for search operations
  *
+ * A contract can hold many indexes as named collections, each one with its own keys
+ * (see `create_collection`). Without a collection, the default (unprefixed) keys are used.
+ *
+ * Contracts only hold strings, so encoded values are base64'd by default. Any other
+ * key-value store can be used as well, and stores of binary values keep the encoded bytes
+ * as they are with the `rawValues` codec, which saves the 33% overhead of base64.
+ *
  * @template M - Type for optional metadata associated with points
+ * @template V - Type of the values of the store, strings for contracts
+ *
+ * @example
+ * ```typescript
+ * await EizenMemory.create_collection(contractSDK, "acme");
+ * const db = new EizenMemory(contractSDK, { collection: "acme" });
+ *
+ * // a store of binary values, such as Redis buffers
+ * const binaryDb = new EizenMemory(bufferStore, { values: rawValues });
+ * ```
  */
-export class EizenMemory<M = unknown> implements DBInterface<M> {
-	client: SetSDK<string>;
+export class EizenMemory<M = unknown, V extends string | Uint8Array = string>
+	implements DBInterface<M>
+{
+	client: ValueStore<V>;
+	/** Name of the collection, undefined for the default collection */
+	collection: string | undefined;
+	/** Keys of the collection */
+	private keys: ReturnType<typeof keys_for>;
+	/** Format that values are written in, all formats can be read */
+	private codec: CodecOptions;
+	/** Converts encoded values and text to the values of the store */
+	private values: ValueCodec<V>;
 
 	/**
 	 * Deploy a new contract for this database instance
+	 * Only works if the store is a contract SDK
 	 *
 	 * @param initialState - Initial state configuration for the contract
 	 * @param source - ( Optional) source transaction ID for contract deployment
 	 * @returns The deployed contract transaction ID
 	 */
 	async deploy(
-		initialState: Awaited<ReturnType<typeof this.client.getState>>,
+		initialState: Awaited<ReturnType<SetSDK<string>["getState"]>>,
 		source = "",
 	) {
-		const { contractTxId } = await this.client.warp.deployFromSourceTx({
-			wallet: this.client.signer,
+		const sdk = this.client as unknown as SetSDK<string>;
+		const { contractTxId } = await sdk.warp.deployFromSourceTx({
+			wallet: sdk.signer,
 			srcTxId: source,
 			initState: JSON.stringify(initialState),
 		});
@@ -46,8 +85,133 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 		return contractTxId;
 	}
 
-	constructor(client: SetSDK<string>) {
+	/**
+	 * @param client - Contract SDK, or another key-value store, that stores the values
+	 * @param options - Optional `collection` to use, instead of the default collection,
+	 * `codec` options of the values written (version and checksums, see `CodecOptions`), and
+	 * the `values` codec of the store: `base64Values` (default) for stores of strings, or
+	 * `rawValues` for stores of binary values
+	 * @throws Error if the collection name is invalid
+	 */
+	constructor(
+		client: ValueStore<V>,
+		options: {
+			collection?: string;
+			codec?: CodecOptions;
+			values?: ValueCodec<V>;
+		} = {},
+	) {
+		if (options.collection !== undefined) {
+			validate_collection(options.collection);
+		}
 		this.client = client;
+		this.collection = options.collection;
+		this.keys = keys_for(options.collection);
+		this.codec = options.codec ?? {};
+		this.values = options.values ?? (base64Values as ValueCodec<V>);
+	}
+
+	// === Collections ===
+
+	/**
+	 * List the named collections of a contract
+	 *
+	 * @param client - Contract SDK, or another key-value store
+	 * @param values - Codec of the values of the store (default: `base64Values`)
+	 * @returns Names of the collections, in creation order
+	 */
+	static async list_collections<V extends string | Uint8Array = string>(
+		client: ValueStore<V>,
+		values: ValueCodec<V> = base64Values as ValueCodec<V>,
+	): Promise<string[]> {
+		const data = await client.get(collectionsKey);
+		return safeParse<string[]>(data && values.to_text(data)) ?? [];
+	}
+
+	/**
+	 * Register a new, empty collection in a contract
+	 *
+	 * NOTE: The list of collections is a single value, so collections must not be
+	 * created or dropped by several processes at the same time.
+	 *
+	 * @param client - Contract SDK, or another key-value store
+	 * @param name - Name of the collection: letters, digits, `_` and `-`
+	 * @param values - Codec of the values of the store (default: `base64Values`)
+	 * @throws Error if the name is invalid or the collection already exists
+	 */
+	static async create_collection<V extends string | Uint8Array = string>(
+		client: ValueStore<V>,
+		name: string,
+		values: ValueCodec<V> = base64Values as ValueCodec<V>,
+	): Promise<void> {
+		validate_collection(name);
+		const names = await EizenMemory.list_collections(client, values);
+		if (names.includes(name)) {
+			throw new Error(`Collection "${name}" already exists`);
+		}
+		await client.set(
+			collectionsKey,
+			values.from_text(JSON.stringify([...names, name])),
+		);
+	}
+
+	/**
+	 * Delete a collection and all of its vectors, nodes and metadata
+	 *
+	 * Values are cleared (set to empty values, which read as missing) in batches, and
+	 * the collection is unregistered last, so a drop that failed can be run again.
+	 *
+	 * @param client - Contract SDK, or another key-value store
+	 * @param name - Name of the collection
+	 * @param values - Codec of the values of the store (default: `base64Values`)
+	 * @throws Error if the collection does not exist
+	 */
+	static async drop_collection<V extends string | Uint8Array = string>(
+		client: ValueStore<V>,
+		name: string,
+		values: ValueCodec<V> = base64Values as ValueCodec<V>,
+	): Promise<void> {
+		const names = await EizenMemory.list_collections(client, values);
+		if (!names.includes(name)) {
+			throw new Error(`Collection "${name}" does not exist`);
+		}
+
+		const db = new EizenMemory(client, { collection: name, values });
+		const empty = values.from_text("");
+		const datasize = await db.get_datasize();
+		const numLayers = await db.get_num_layers();
+		const idxs = Array.from({ length: datasize }, (_, i) => i);
+
+		const quantized = (await db.get_quantizer()) !== null;
+
+		const cleared: string[] = [];
+		for (const idx of idxs) {
+			cleared.push(db.keys.point(idx), db.keys.metadata(idx));
+			if (quantized) cleared.push(db.keys.codes(idx));
+		}
+		for (let layer = 0; layer < numLayers; layer++) {
+			const linked = await db.has_neighbors(layer, idxs);
+			cleared.push(
+				...idxs
+					.filter((_, i) => linked[i])
+					.map((idx) => db.keys.neighbor(layer, idx)),
+			);
+		}
+		await db.safe_set_many(cleared.map((key) => [key, empty]));
+
+		// counters last, so that a failed drop still knows what to clear
+		const { layers, ep, points, metric, config, quantizer, lease } = db.keys;
+		await db.safe_set_many(
+			[layers, ep, points, metric, config, quantizer, lease].map((key) => [
+				key,
+				empty,
+			]),
+		);
+
+		await client.set(
+			collectionsKey,
+			values.from_text(JSON.stringify(names.filter((n) => n !== name))),
+		);
 	}
 
 	// === Entry Point Management ===
@@ -57,8 +221,8 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * The entry point is the starting node for navigating the graph structure
 	 */
 	async get_ep(): Promise<number | null> {
-		const ep = await this.client.get(keys.ep);
-		return ep === null ? null : Number.parseInt(ep);
+		const ep = await this.get_text(this.keys.ep);
+		return ep ? Number.parseInt(ep) : null;
 	}
 
 	/**
@@ -66,7 +230,48 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * Should typically be a well-connected node in the highest layer
 	 */
 	async set_ep(ep: number): Promise<void> {
-		await this.client.set(keys.ep, ep.toString());
+		await this.set_text(this.keys.ep, ep.toString());
+	}
+
+	// === Index Configuration ===
+
+	/**
+	 * Get the name of the distance metric of an index that stored it on its own,
+	 * before the metric was part of the configuration
+	 */
+	async get_metric(): Promise<string | null> {
+		return this.get_text(this.keys.metric);
+	}
+
+	/**
+	 * Get the configuration (header) of the index, stored as JSON
+	 */
+	async get_config(): Promise<IndexConfig | null> {
+		return safeParse<IndexConfig>(await this.get_text(this.keys.config));
+	}
+
+	/**
+	 * Store the configuration (header) of the index, written on the first insert
+	 */
+	async set_config(config: IndexConfig): Promise<void> {
+		await this.set_text(this.keys.config, JSON.stringify(config));
+	}
+
+	// === Write Lease ===
+
+	/**
+	 * Get the serialized write lease, or null if no writer holds it
+	 */
+	async get_lease(): Promise<string | null> {
+		return this.get_text(this.keys.lease);
+	}
+
+	/**
+	 * Store the serialized write lease, or clear it with null
+	 * The lease is cleared by storing an empty string
+	 */
+	async set_lease(lease: string | null): Promise<void> {
+		await this.set_text(this.keys.lease, lease ?? "");
 	}
 
 	// === Point (Vector) Operations ===
@@ -79,7 +284,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @throws Error if point doesn't exist or has no value
 	 */
 	async get_point(idx: number): Promise<Point> {
-		const data = await this.client.get(keys.point(idx));
+		const data = await this.get_bytes(this.keys.point(idx));
 		if (!data) {
 			throw new Error(`No point with index ${idx}`);
 		}
@@ -99,7 +304,9 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 */
 	async get_points(idxs: number[]): Promise<Point[]> {
 		if (idxs.length === 0) return [];
-		const datas = await this.safe_get_many(idxs.map((idx) => keys.point(idx)));
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.point(idx)),
+		);
 
 		// Validate all points exist before processing
 		const nullPos = datas.indexOf(null);
@@ -112,7 +319,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 			if (data === null) {
 				throw new Error(`No data for point at index ${idxs[i]}`);
 			}
-			return decodePoint(data);
+			return decodePoint(this.values.to_bytes(data));
 		});
 
 		return points.map((point, i) => {
@@ -126,19 +333,156 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	/**
 	 * Add a new point to the database and assign it the next available index
 	 *
+	 * WARNING: Concurrent calls may be assigned the same index,
+	 * HNSW serializes its writes (see the `lock` option for multiple processes)
+	 *
 	 * @param q - Point data to store
 	 * @returns The assigned index for this point
 	 */
 	async new_point(q: Point): Promise<number> {
 		const idx = await this.get_datasize();
 
-		const point = encodePoint({ v: q, idx });
-		await this.client.set(keys.point(idx), point);
-		await this.client.set(keys.points, (idx + 1).toString());
+		const point = encodePointBytes({ v: q, idx }, this.codec);
+		await this.client.set(this.keys.point(idx), this.values.from_bytes(point));
+		await this.set_text(this.keys.points, (idx + 1).toString());
 
 		return idx;
 	}
 
+	/**
+	 * Add multiple points at once, assigning them consecutive indices
+	 * The points and the new datasize are written together in one batch
+	 *
+	 * @param qs - Points to store
+	 * @returns The assigned indices, in the same order as the points
+	 */
+	async new_points(qs: Point[]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = qs.map((_, i) => datasize + i);
+
+		await this.safe_set_many([
+			...qs.map((q, i): [string, V] => [
+				this.keys.point(idxs[i]),
+				this.values.from_bytes(
+					encodePointBytes({ v: q, idx: idxs[i] }, this.codec),
+				),
+			]),
+			[
+				this.keys.points,
+				this.values.from_text((datasize + qs.length).toString()),
+			],
+		]);
+
+		return idxs;
+	}
+
+	/**
+	 * Overwrite the vector of an existing point
+	 *
+	 * @param idx - Index of the point to overwrite
+	 * @param q - New point data
+	 */
+	async set_point(idx: number, q: Point): Promise<void> {
+		const point = encodePointBytes({ v: q, idx }, this.codec);
+		await this.client.set(this.keys.point(idx), this.values.from_bytes(point));
+	}
+
+	/**
+	 * Overwrite the vectors of multiple existing points, in one batch
+	 *
+	 * @param idxs - Indices of the points to overwrite
+	 * @param qs - New point data, in the same order as the indices
+	 */
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		await this.safe_set_many(
+			idxs.map((idx, i) => [
+				this.keys.point(idx),
+				this.values.from_bytes(encodePointBytes({ v: qs[i], idx }, this.codec)),
+			]),
+		);
+	}
+
+	// === Quantized Point Operations ===
+
+	/**
+	 * Add the codes of new quantized points, assigning them consecutive indices
+	 * The codes and the new datasize are written together in one batch
+	 *
+	 * @param codes - Codes of the points to store
+	 * @returns The assigned indices, in the same order as the codes
+	 */
+	async new_codes(codes: number[][]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = codes.map((_, i) => datasize + i);
+
+		await this.safe_set_many([
+			...codes.map((v, i): [string, V] => [
+				this.keys.codes(idxs[i]),
+				this.values.from_bytes(
+					encodePointQuantBytes({ v, idx: idxs[i] }, this.codec),
+				),
+			]),
+			[
+				this.keys.points,
+				this.values.from_text((datasize + codes.length).toString()),
+			],
+		]);
+
+		return idxs;
+	}
+
+	/**
+	 * Store the codes of existing points, encoded as `PointQuant`
+	 *
+	 * @param idxs - Point indices
+	 * @param codes - Codes of each point, in the same order as the indices
+	 */
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		await this.safe_set_many(
+			idxs.map((idx, i) => [
+				this.keys.codes(idx),
+				this.values.from_bytes(
+					encodePointQuantBytes({ v: codes[i], idx }, this.codec),
+				),
+			]),
+		);
+	}
+
+	/**
+	 * Retrieve the codes of multiple quantized points
+	 *
+	 * @param idxs - Point indices
+	 * @returns Codes of each point, in the same order as the indices
+	 * @throws Error if any point has no codes
+	 */
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.codes(idx)),
+		);
+
+		return datas.map((data, i) => {
+			if (data === null) {
+				throw new Error(`No codes for point at index ${idxs[i]}`);
+			}
+			return decodePointQuant(this.values.to_bytes(data)).v ?? [];
+		});
+	}
+
+	/**
+	 * Get the serialized quantizer of the index, null if it is not quantized
+	 */
+	async get_quantizer(): Promise<string | null> {
+		return this.get_text(this.keys.quantizer);
+	}
+
+	/**
+	 * Store the serialized quantizer of the index, written on the first insert
+	 */
+	async set_quantizer(quantizer: string): Promise<void> {
+		await this.set_text(this.keys.quantizer, quantizer);
+	}
+
 	// === Graph Structure Queries ===
 
 	/**
@@ -146,7 +490,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * Higher layers have fewer, more connected nodes for efficient search
 	 */
 	async get_num_layers(): Promise<number> {
-		const numLayers = await this.client.get(keys.layers);
+		const numLayers = await this.get_text(this.keys.layers);
 		return numLayers ? Number.parseInt(numLayers) : 0;
 	}
 
@@ -155,7 +499,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * This represents the next available index for new points
 	 */
 	async get_datasize(): Promise<number> {
-		const datasize = await this.client.get(keys.points);
+		const datasize = await this.get_text(this.keys.points);
 		return datasize ? Number.parseInt(datasize) : 0;
 	}
 
@@ -170,7 +514,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @throws Error if node doesn't exist or has no neighbors
 	 */
 	async get_neighbor(layer: number, idx: number): Promise<LayerNode> {
-		const data = await this.client.get(keys.neighbor(layer, idx));
+		const data = await this.get_bytes(this.keys.neighbor(layer, idx));
 		if (!data) {
 			throw new Error(`No neighbors at layer ${layer}, index ${idx}"`);
 		}
@@ -191,7 +535,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 */
 	async get_neighbors(layer: number, idxs: number[]): Promise<Graph> {
 		const datas = await this.safe_get_many(
-			idxs.map((idx) => keys.neighbor(layer, idx)),
+			idxs.map((idx) => this.keys.neighbor(layer, idx)),
 		);
 
 		// Validate all nodes exist
@@ -209,7 +553,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 					`No data for neighbor at layer ${layer}, index ${idxs[i]}`,
 				);
 			}
-			return decodeLayerNode(data);
+			return decodeLayerNode(this.values.to_bytes(data));
 		});
 
 		const neighbors = nodes.map((node, i) => {
@@ -224,24 +568,48 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 		return Object.fromEntries(idxs.map((idx, i) => [idx, neighbors[i]]));
 	}
 
+	/**
+	 * Check which nodes exist in a layer, without decoding their neighbors
+	 *
+	 * @param layer - Layer level to query
+	 * @param idxs - Array of node indices to check
+	 * @returns Array of existence flags in same order as input
+	 */
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.neighbor(layer, idx)),
+		);
+		return datas.map((data) => data !== null);
+	}
+
 	/**
 	 * Create or update neighbor connections for a single node
 	 *
 	 * @param layer - Layer level where the node exists
 	 * @param idx - Node index to update
 	 * @param node - New neighbor connections for this node
+	 * @param visible - Whether the node is visible, i.e. not deleted
 	 */
 	async upsert_neighbor(
 		layer: number,
 		idx: number,
 		node: LayerNode,
+		visible = true,
 	): Promise<void> {
-		const data = encodeLayerNode({
-			idx,
-			level: layer,
-			neighbors: node,
-		});
-		await this.client.set(keys.neighbor(layer, idx), data);
+		const data = encodeLayerNodeBytes(
+			{
+				idx,
+				level: layer,
+				visible,
+				neighbors: node,
+			},
+			this.codec,
+		);
+		await this.client.set(
+			this.keys.neighbor(layer, idx),
+			this.values.from_bytes(data),
+		);
 	}
 
 	/**
@@ -250,19 +618,28 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 *
 	 * @param layer - Layer level to update
 	 * @param nodes - Graph mapping node indices to their new neighbor connections
+	 * @param deleted - Node indices that must stay marked as deleted
 	 */
-	async upsert_neighbors(layer: number, nodes: Graph): Promise<void> {
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted: number[] = [],
+	): Promise<void> {
 		await this.safe_set_many(
 			Object.keys(nodes).map((idx) => {
 				const i = Number.parseInt(idx);
-				const key = keys.neighbor(layer, i);
-				const value = encodeLayerNode({
-					idx: i,
-					level: layer,
-					neighbors: nodes[i],
-				});
-
-				return [key, value];
+				const key = this.keys.neighbor(layer, i);
+				const value = encodeLayerNodeBytes(
+					{
+						idx: i,
+						level: layer,
+						visible: !deleted.includes(i),
+						neighbors: nodes[i],
+					},
+					this.codec,
+				);
+
+				return [key, this.values.from_bytes(value)];
 			}),
 		);
 	}
@@ -271,7 +648,8 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * Initialize a new layer and add a node with empty neighbors
 	 * This creates a new level in the hierarchical structure
 	 *
-	 * WARNING: Concurrent calls may cause race conditions in layer counting
+	 * WARNING: Concurrent calls may cause race conditions in layer counting,
+	 * HNSW serializes its writes (see the `lock` option for multiple processes)
 	 *
 	 * @param idx - Index of the node to add to the new layer
 	 */
@@ -280,8 +658,43 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 		await this.upsert_neighbor(l, idx, {});
 
 		// NOTE: if `new_neighbor` is run in parallel,
-		// this might cause a race-condition
-		await this.client.set(keys.layers, (l + 1).toString());
+		// this might cause a race-condition (HNSW writes are serialized)
+		await this.set_text(this.keys.layers, (l + 1).toString());
+	}
+
+	// === Deletion (Tombstones) ===
+
+	/**
+	 * Get the visibility of multiple points, read from their layer-0 nodes
+	 *
+	 * @param idxs - Array of point indices
+	 * @returns Array of visibility flags (false = deleted) in same order as input
+	 * @throws Error if any point has no layer-0 node
+	 */
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.safe_get_many(
+			idxs.map((idx) => this.keys.neighbor(0, idx)),
+		);
+
+		return datas.map((data, i) => {
+			if (data === null) {
+				throw new Error(`No neighbors at layer 0, index ${idxs[i]}`);
+			}
+			return decodeLayerNode(this.values.to_bytes(data)).visible === true;
+		});
+	}
+
+	/**
+	 * Mark a point as visible or deleted by rewriting its layer-0 node
+	 *
+	 * @param idx - Point index
+	 * @param visible - False to delete (tombstone) the point, true to restore it
+	 * @throws Error if the point has no layer-0 node
+	 */
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		const node = await this.get_neighbor(0, idx);
+		await this.upsert_neighbor(0, idx, node, visible);
 	}
 
 	// === Metadata Operations ===
@@ -293,7 +706,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @returns Metadata object or null if none exists
 	 */
 	async get_metadata(idx: number): Promise<M | null> {
-		const data = await this.client.get(keys.metadata(idx));
+		const data = await this.get_text(this.keys.metadata(idx));
 		return safeParse<M>(data);
 	}
 
@@ -316,21 +729,61 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * @param data - Metadata to associate with this point
 	 */
 	async set_metadata(idx: number, data: M): Promise<void> {
-		await this.client.set(keys.metadata(idx), JSON.stringify(data));
+		await this.set_text(this.keys.metadata(idx), JSON.stringify(data));
+	}
+
+	/**
+	 * Store metadata for multiple points in one batch
+	 *
+	 * @param idxs - Point indices
+	 * @param datas - Metadata for each point, in the same order as the indices
+	 */
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		await this.safe_set_many(
+			idxs.map((idx, i) => [
+				this.keys.metadata(idx),
+				this.values.from_text(JSON.stringify(datas[i])),
+			]),
+		);
 	}
 
 	// === Private Utility Methods ===
 
+	/**
+	 * Get a text value (counter, JSON), null if it is missing or empty
+	 */
+	private async get_text(key: string): Promise<string | null> {
+		const value = await this.client.get(key);
+		return value?.length ? this.values.to_text(value) : null;
+	}
+
+	/**
+	 * Set a text value (counter, JSON), an empty text clears it
+	 */
+	private async set_text(key: string, text: string): Promise<void> {
+		await this.client.set(key, this.values.from_text(text));
+	}
+
+	/**
+	 * Get the bytes of an encoded value, null if it is missing or empty
+	 */
+	private async get_bytes(key: string): Promise<Uint8Array | null> {
+		const value = await this.client.get(key);
+		return value?.length ? this.values.to_bytes(value) : null;
+	}
+
 	/**
 	 * Safely retrieve multiple keys with automatic request splitting
 	 *
 	 * Base-DB has transaction size limits. This method automatically splits
 	 * large requests into smaller chunks when the limit is exceeded.
 	 * Uses recursive binary splitting on errors.
+	 * Empty values (of dropped collections) are returned as null, like missing keys.
 	 */
-	private async safe_get_many(keys: string[]): Promise<(string | null)[]> {
+	private async safe_get_many(keys: string[]): Promise<(V | null)[]> {
 		try {
-			return await this.client.getMany(keys);
+			const values = await this.client.getMany(keys);
+			return values.map((value) => (value?.length ? value : null));
 		} catch (err) {
 			// TODO: check error type
 			const half = Math.floor(keys.length >> 1);
@@ -350,7 +803,7 @@ export class EizenMemory<M = unknown> implements DBInterface<M> {
 	 * recursively splitting large batches into smaller ones.
 	 */
 	private async safe_set_many(
-		entries: [key: string, value: string][],
+		entries: [key: string, value: V][],
 	): Promise<void> {
 		try {
 			await this.client.setMany(
@@ -1,4 +1,4 @@
-import type { Graph, LayerNode, Point } from "../../types";
+import type { Graph, IndexConfig, LayerNode, Point } from "../../types";
 
 /**
  * Database interface for HNSW (Hierarchical Navigable Small World) implementation.
@@ -31,14 +31,34 @@ export interface DBInterface<M = unknown> {
 	/**
 	 * Updates or inserts neighbor connections for a node.
 	 * Creates the connection if it doesn't exist, updates if it does.
+	 *
+	 * @param visible Visibility flag to store with the node (default: true)
 	 */
-	upsert_neighbor(layer: number, idx: number, node: LayerNode): Promise<void>;
+	upsert_neighbor(
+		layer: number,
+		idx: number,
+		node: LayerNode,
+		visible?: boolean,
+	): Promise<void>;
 
 	/**
 	 * Batch update/insert of neighbor connections.
 	 * More efficient than multiple individual upsert_neighbor calls.
+	 *
+	 * @param deleted Indices among `nodes` that must keep their deleted (invisible) flag
+	 */
+	upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted?: number[],
+	): Promise<void>;
+
+	/**
+	 * Checks which of the given nodes exist in a layer.
+	 *
+	 * @returns Array with `true` for each node that has a neighbor list in the layer
 	 */
-	upsert_neighbors(layer: number, nodes: Graph): Promise<void>;
+	has_neighbors(layer: number, idxs: number[]): Promise<boolean[]>;
 
 	/**
 	 * Returns the total number of layers in the HNSW structure.
@@ -56,6 +76,24 @@ export interface DBInterface<M = unknown> {
 	 */
 	new_point(q: Point): Promise<number>;
 
+	/**
+	 * Batch addition of multiple points, assigned consecutive indices in order.
+	 *
+	 * @returns The assigned indices for the new points
+	 */
+	new_points(qs: Point[]): Promise<number[]>;
+
+	/**
+	 * Overwrites the vector of an existing point, keeping its index.
+	 */
+	set_point(idx: number, q: Point): Promise<void>;
+
+	/**
+	 * Batch overwrite of the vectors of existing points.
+	 * More efficient than multiple individual set_point calls.
+	 */
+	set_points(idxs: number[], qs: Point[]): Promise<void>;
+
 	/**
 	 * Retrieves a single point by its index.
 	 */
@@ -74,6 +112,56 @@ export interface DBInterface<M = unknown> {
 	 */
 	get_datasize(): Promise<number>;
 
+	/////////////// QUANTIZED POINT STORAGE ///////////////
+
+	/**
+	 * Adds the codes of new quantized points, assigning them indices like `new_points`.
+	 * Used for points that are stored without their full-precision vector.
+	 *
+	 * @returns The indices of the new points, in the same order as the codes
+	 */
+	new_codes(codes: number[][]): Promise<number[]>;
+
+	/**
+	 * Stores the codes of existing points.
+	 */
+	set_codes(idxs: number[], codes: number[][]): Promise<void>;
+
+	/**
+	 * Retrieves the codes of multiple points.
+	 */
+	get_codes(idxs: number[]): Promise<number[][]>;
+
+	/**
+	 * Gets the serialized quantizer of the index.
+	 *
+	 * @returns The quantizer, or null if the index is not quantized
+	 */
+	get_quantizer(): Promise<string | null>;
+
+	/**
+	 * Stores the serialized quantizer of the index.
+	 * Written once, when the first point is inserted.
+	 */
+	set_quantizer(quantizer: string): Promise<void>;
+
+	/////////////// DELETION (TOMBSTONES) ///////////////
+
+	/**
+	 * Batch retrieval of the visibility of points.
+	 * A point is visible unless it has been deleted; the flag is read from
+	 * the `visible` field of the point's layer-0 node.
+	 *
+	 * @throws Error if any point has no layer-0 node
+	 */
+	get_visibilities(idxs: number[]): Promise<boolean[]>;
+
+	/**
+	 * Sets the visibility of a point on its layer-0 node.
+	 * Deleted points stay in the graph for routing, but are never returned by searches.
+	 */
+	set_visibility(idx: number, visible: boolean): Promise<void>;
+
 	/////////////// ENTRY POINT MANAGEMENT ///////////////
 
 	/**
@@ -90,6 +178,43 @@ export interface DBInterface<M = unknown> {
 	 */
 	set_ep(ep: number): Promise<void>;
 
+	/////////////// INDEX CONFIGURATION ///////////////
+
+	/**
+	 * Gets the name of the distance metric of indexes that were created before the
+	 * metric was part of their configuration, see `get_config`.
+	 *
+	 * @returns Metric name, or null if no metric was stored on its own
+	 */
+	get_metric(): Promise<string | null>;
+
+	/**
+	 * Gets the configuration (header) of the index, with its metric.
+	 *
+	 * @returns The configuration, or null if none has been stored yet
+	 */
+	get_config(): Promise<IndexConfig | null>;
+
+	/**
+	 * Stores the configuration (header) of the index.
+	 * Written once, when the first point is inserted.
+	 */
+	set_config(config: IndexConfig): Promise<void>;
+
+	/////////////// WRITE LEASE ///////////////
+
+	/**
+	 * Retrieves the write lease of the index, see `LeaseLock`.
+	 *
+	 * @returns The serialized lease, or null if no writer holds it
+	 */
+	get_lease(): Promise<string | null>;
+
+	/**
+	 * Stores the write lease of the index, or clears it with null.
+	 */
+	set_lease(lease: string | null): Promise<void>;
+
 	/////////////// METADATA OPERATIONS ///////////////
 
 	/**
@@ -111,4 +236,33 @@ export interface DBInterface<M = unknown> {
 	 * Overwrites existing metadata if present.
 	 */
 	set_metadata(idx: number, data: M): Promise<void>;
+
+	/**
+	 * Batch association of metadata with multiple points.
+	 * `datas[i]` is stored for `idxs[i]`.
+	 */
+	set_metadatas(idxs: number[], datas: M[]): Promise<void>;
+}
+
+/**
+ * Key-value store behind `EizenMemory`.
+ *
+ * Contract SDKs (`SetSDK<string>`) are stores of strings. Stores that can hold binary
+ * values, e.g. an adapter of Redis `getBuffer`, hold the encoded bytes as they are,
+ * together with the `rawValues` codec.
+ *
+ * @template V - Type of the stored values
+ */
+export interface ValueStore<V> {
+	/** Gets a value, null if the key is missing */
+	get(key: string): Promise<V | null>;
+
+	/** Gets multiple values, null for missing keys */
+	getMany(keys: string[]): Promise<(V | null)[]>;
+
+	/** Sets a value */
+	set(key: string, value: V): Promise<void>;
+
+	/** Sets multiple values at once */
+	setMany(keys: string[], values: V[]): Promise<void>;
 }
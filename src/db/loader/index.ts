@@ -0,0 +1,316 @@
+import type { Graph, IndexConfig, LayerNode, Point } from "../../types";
+import type { DBInterface } from "../interfaces";
+
+/**
+ * Loader - Coalesces single-key reads into batched reads
+ *
+ * Keys requested within the same turn of the event loop are fetched together with a
+ * single call once all pending promise callbacks have run, and every value is cached,
+ * so that a key is only fetched once for the lifetime of the loader.
+ */
+class Loader<V> {
+	private cache = new Map<number, Promise<V>>();
+	private queue: {
+		idx: number;
+		resolve: (value: V) => void;
+		reject: (err: unknown) => void;
+	}[] = [];
+
+	constructor(private fetch: (idxs: number[]) => Promise<V[]>) {}
+
+	/** Load multiple values, in the same order as their keys */
+	load(idxs: number[]): Promise<V[]> {
+		return Promise.all(idxs.map((idx) => this.load_one(idx)));
+	}
+
+	/** Drop all cached values */
+	clear(): void {
+		this.cache.clear();
+	}
+
+	private load_one(idx: number): Promise<V> {
+		const cached = this.cache.get(idx);
+		if (cached) return cached;
+
+		const value = new Promise<V>((resolve, reject) => {
+			this.queue.push({ idx, resolve, reject });
+			if (this.queue.length === 1) {
+				// run after the promise callbacks of all concurrent readers
+				setImmediate(() => this.dispatch());
+			}
+		});
+		this.cache.set(idx, value);
+		return value;
+	}
+
+	private async dispatch(): Promise<void> {
+		const batch = this.queue;
+		this.queue = [];
+
+		try {
+			const values = await this.fetch(batch.map(({ idx }) => idx));
+			batch.forEach(({ resolve }, i) => resolve(values[i]));
+		} catch (err) {
+			// failed reads are not cached, so that they can be retried
+			for (const { idx, reject } of batch) {
+				this.cache.delete(idx);
+				reject(err);
+			}
+		}
+	}
+}
+
+/**
+ * LoaderMemory - A read overlay that shares reads between concurrent operations
+ *
+ * Concurrent reads of points, codes, nodes, visibilities and metadata are coalesced into one
+ * batched read per kind (and layer) of the underlying database, and cached. Concurrent
+ * searches therefore fetch every point and node they have in common only once, and make
+ * a single round trip for each step of the graph walk that they take together.
+ *
+ * This is used by `HNSW.knn_search_many`. The cache is never invalidated by others, so
+ * an overlay should only live for a single batch of reads. Writes go directly to the
+ * underlying database and clear the cache.
+ *
+ * NOTE: The cache is unbounded, it keeps every value read until the overlay is dropped
+ * (or written to). Failed reads are not cached, but a read that fails (e.g. of a corrupted
+ * node) fails all reads it was batched with.
+ *
+ * @template M - Type for optional metadata associated with points
+ */
+export class LoaderMemory<M = unknown> implements DBInterface<M> {
+	/** The database that reads are delegated to */
+	base: DBInterface<M>;
+
+	private points: Loader<Point>;
+	private codes: Loader<number[]>;
+	private visibilities: Loader<boolean>;
+	private metadatas: Loader<M | null>;
+	private layers = new Map<number, Loader<LayerNode>>();
+
+	// values that are the same for all reads (entry point, counters, configuration)
+	private values = new Map<string, Promise<unknown>>();
+
+	constructor(base: DBInterface<M>) {
+		this.base = base;
+		this.points = new Loader((idxs) => base.get_points(idxs));
+		this.codes = new Loader((idxs) => base.get_codes(idxs));
+		this.visibilities = new Loader((idxs) => base.get_visibilities(idxs));
+		this.metadatas = new Loader((idxs) => base.get_metadatas(idxs));
+	}
+
+	// === Entry Point Management ===
+
+	async get_ep(): Promise<number | null> {
+		return this.once("ep", () => this.base.get_ep());
+	}
+
+	async set_ep(ep: number): Promise<void> {
+		this.clear();
+		await this.base.set_ep(ep);
+	}
+
+	// === Index Configuration ===
+
+	async get_metric(): Promise<string | null> {
+		return this.once("metric", () => this.base.get_metric());
+	}
+
+	async get_config(): Promise<IndexConfig | null> {
+		return this.once("config", () => this.base.get_config());
+	}
+
+	async set_config(config: IndexConfig): Promise<void> {
+		this.clear();
+		await this.base.set_config(config);
+	}
+
+	// === Write Lease ===
+
+	async get_lease(): Promise<string | null> {
+		return this.base.get_lease();
+	}
+
+	async set_lease(lease: string | null): Promise<void> {
+		await this.base.set_lease(lease);
+	}
+
+	// === Point (Vector) Operations ===
+
+	async get_point(idx: number): Promise<Point> {
+		const [point] = await this.points.load([idx]);
+		return point;
+	}
+
+	async get_points(idxs: number[]): Promise<Point[]> {
+		return this.points.load(idxs);
+	}
+
+	async new_point(q: Point): Promise<number> {
+		this.clear();
+		return this.base.new_point(q);
+	}
+
+	async new_points(qs: Point[]): Promise<number[]> {
+		this.clear();
+		return this.base.new_points(qs);
+	}
+
+	async set_point(idx: number, q: Point): Promise<void> {
+		this.clear();
+		await this.base.set_point(idx, q);
+	}
+
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		this.clear();
+		await this.base.set_points(idxs, qs);
+	}
+
+	// === Quantized Point Operations ===
+
+	async new_codes(codes: number[][]): Promise<number[]> {
+		this.clear();
+		return this.base.new_codes(codes);
+	}
+
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		this.clear();
+		await this.base.set_codes(idxs, codes);
+	}
+
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		return this.codes.load(idxs);
+	}
+
+	async get_quantizer(): Promise<string | null> {
+		return this.once("quantizer", () => this.base.get_quantizer());
+	}
+
+	async set_quantizer(quantizer: string): Promise<void> {
+		this.clear();
+		await this.base.set_quantizer(quantizer);
+	}
+
+	async get_datasize(): Promise<number> {
+		return this.once("datasize", () => this.base.get_datasize());
+	}
+
+	// === Graph Structure Queries ===
+
+	async get_num_layers(): Promise<number> {
+		return this.once("numLayers", () => this.base.get_num_layers());
+	}
+
+	// === Neighbor (Graph Edge) Operations ===
+
+	async get_neighbor(layer: number, idx: number): Promise<LayerNode> {
+		const [node] = await this.layer(layer).load([idx]);
+		return { ...node };
+	}
+
+	async get_neighbors(layer: number, idxs: number[]): Promise<Graph> {
+		const nodes = await this.layer(layer).load(idxs);
+		return Object.fromEntries(idxs.map((idx, i) => [idx, { ...nodes[i] }]));
+	}
+
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		return this.base.has_neighbors(layer, idxs);
+	}
+
+	async upsert_neighbor(
+		layer: number,
+		idx: number,
+		node: LayerNode,
+		visible?: boolean,
+	): Promise<void> {
+		this.clear();
+		await this.base.upsert_neighbor(layer, idx, node, visible);
+	}
+
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted?: number[],
+	): Promise<void> {
+		this.clear();
+		await this.base.upsert_neighbors(layer, nodes, deleted);
+	}
+
+	async new_neighbor(idx: number): Promise<void> {
+		this.clear();
+		await this.base.new_neighbor(idx);
+	}
+
+	// === Deletion (Tombstones) ===
+
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		return this.visibilities.load(idxs);
+	}
+
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		this.clear();
+		await this.base.set_visibility(idx, visible);
+	}
+
+	// === Metadata Operations ===
+
+	async get_metadata(idx: number): Promise<M | null> {
+		const [metadata] = await this.metadatas.load([idx]);
+		return metadata;
+	}
+
+	async get_metadatas(idxs: number[]): Promise<(M | null)[]> {
+		return this.metadatas.load(idxs);
+	}
+
+	async set_metadata(idx: number, data: M): Promise<void> {
+		this.clear();
+		await this.base.set_metadata(idx, data);
+	}
+
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		this.clear();
+		await this.base.set_metadatas(idxs, datas);
+	}
+
+	/** Drop all cached reads */
+	clear(): void {
+		this.points.clear();
+		this.codes.clear();
+		this.visibilities.clear();
+		this.metadatas.clear();
+		this.layers.clear();
+		this.values.clear();
+	}
+
+	/** Reads a value that is the same for all reads once, see `values` */
+	private once<V>(key: string, read: () => Promise<V>): Promise<V> {
+		const cached = this.values.get(key);
+		if (cached) return cached as Promise<V>;
+
+		const value = read();
+		this.values.set(key, value);
+		// failed reads are not cached, so that they can be retried
+		value.catch(() => {
+			if (this.values.get(key) === value) this.values.delete(key);
+		});
+		return value;
+	}
+
+	/** The loader of the nodes of a layer */
+	private layer(layer: number): Loader<LayerNode> {
+		let loader = this.layers.get(layer);
+		if (!loader) {
+			loader = new Loader(async (idxs) => {
+				const graph = await this.base.get_neighbors(layer, idxs);
+				return idxs.map((idx) => graph[idx]);
+			});
+			this.layers.set(layer, loader);
+		}
+		return loader;
+	}
+
+	toString() {
+		return `Shared reads over ${this.base}`;
+	}
+}
@@ -0,0 +1,291 @@
+import type { WriteLock } from "../../types";
+import type { DBInterface } from "../interfaces";
+
+/**
+ * Mutex - Runs asynchronous operations one after another
+ *
+ * Operations are queued in the order they are started, and each one starts only
+ * after the previous one has settled (whether it resolved or rejected).
+ */
+export class Mutex {
+	/** Settles when the last queued operation has settled */
+	private tail: Promise<void> = Promise.resolve();
+
+	/**
+	 * Run an operation once all previously queued operations have settled
+	 *
+	 * @param fn Operation to run exclusively
+	 * @returns The result of the operation
+	 */
+	async run<T>(fn: () => Promise<T>): Promise<T> {
+		const previous = this.tail;
+		let release = () => {};
+		this.tail = new Promise((resolve) => {
+			release = resolve;
+		});
+
+		await previous;
+		try {
+			return await fn();
+		} finally {
+			release();
+		}
+	}
+}
+
+/** Mutexes of the databases written to by this process */
+const mutexes = new WeakMap<object, Mutex>();
+
+/**
+ * Get the mutex that serializes writes to a database within this process,
+ * shared by all indexes that use the same database object
+ *
+ * @param db Database object
+ */
+export function mutex_for(db: object): Mutex {
+	let mutex = mutexes.get(db);
+	if (!mutex) {
+		mutex = new Mutex();
+		mutexes.set(db, mutex);
+	}
+	return mutex;
+}
+
+/** A lease as stored in the database */
+type Lease = {
+	/** Writer that holds the lease */
+	owner: string;
+	/** Unique token of this acquisition */
+	token: string;
+	/** Time at which the lease expires (milliseconds since epoch) */
+	expires: number;
+	/** Longest time in milliseconds that the writer took to write a lease, see `settleDelay` */
+	latency?: number;
+};
+
+/** A lease held by this process */
+type Held = {
+	/** Token of the acquisition */
+	token: string;
+	/** Time at which the lease expires, unless it is renewed */
+	expires: number;
+	/** Whether another writer took over the lease */
+	lost: boolean;
+	/** Timer that renews the lease */
+	heartbeat: ReturnType<typeof setInterval>;
+	/** Settles when the last renewal has settled */
+	renewal: Promise<void>;
+};
+
+/** Options of a {@link LeaseLock} */
+export type LeaseLockOptions = {
+	/** Name of this writer, shown in errors of other writers (default: random) */
+	owner?: string;
+	/**
+	 * Time in milliseconds after which a lease expires, so that writers that crashed do
+	 * not block the index forever. The lease is renewed every third of it while it is held,
+	 * so writes can take longer (default: 60000)
+	 */
+	ttl?: number;
+	/** Time in milliseconds between attempts while the lease is held by another writer (default: 200) */
+	retryDelay?: number;
+	/**
+	 * Minimum time in milliseconds to wait after writing the lease before reading it back, to
+	 * detect writers that tried to take it at the same time. Twice the longest measured lease
+	 * write is waited instead if that is longer (default: 100)
+	 */
+	settleDelay?: number;
+	/** Time in milliseconds after which waiting for the lease fails (default: 120000) */
+	timeout?: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * LeaseLock - A write lock for multiple processes, stored in the database itself
+ *
+ * The lease is a single record with its owner and expiry time. To acquire it, a writer
+ * waits until there is no valid lease, writes its own lease, waits for the settle delay
+ * and then reads it back: if another writer wrote its lease in the meantime, the last
+ * write wins and the others try again. This only relies on plain `get`/`set` operations,
+ * so it works with every backend, but writes must be applied in a single order (like
+ * the transactions of a contract, or Redis commands).
+ *
+ * The settle delay must be longer than the time it takes for a write of any writer to
+ * become visible. Writers measure how long their lease writes take and record it in the
+ * lease, so that all of them wait twice the longest write they know of (and at least
+ * `settleDelay`). A writer whose own write took longer than it waited cannot tell whether
+ * another writer took the lease in the meantime, so it gives up the attempt, leaves its
+ * lease to expire and tries again with the longer delay.
+ *
+ * While the lease is held, it is renewed every third of `ttl`, so that long writes (such as
+ * a large `insertMany` or a migration) keep it. Leases of crashed writers are not renewed
+ * and expire after `ttl`. Before batched writes are committed, `check` reads the lease
+ * back and fails if it was taken over, e.g. because renewals failed for too long.
+ *
+ * @example
+ * ```typescript
+ * const db = new EizenMemory(contractSDK);
+ * const hnsw = new HNSW(db, 16, 200, 50, {
+ *   lock: new LeaseLock(db, { owner: `api-${process.pid}` }),
+ * });
+ *
+ * // safe to call from several servers at once
+ * await hnsw.insert(vector);
+ * ```
+ */
+export class LeaseLock implements WriteLock {
+	/** Database that stores the lease */
+	db: Pick<DBInterface, "get_lease" | "set_lease">;
+	owner: string;
+	ttl: number;
+	retryDelay: number;
+	settleDelay: number;
+	timeout: number;
+
+	/** Longest time it took to write a lease, of this writer and the others it has seen */
+	private latency = 0;
+	/** The lease held by this lock, if any */
+	private held: Held | undefined;
+
+	constructor(
+		db: Pick<DBInterface, "get_lease" | "set_lease">,
+		options: LeaseLockOptions = {},
+	) {
+		this.db = db;
+		this.owner = options.owner ?? crypto.randomUUID();
+		this.ttl = options.ttl ?? 60_000;
+		this.retryDelay = options.retryDelay ?? 200;
+		this.settleDelay = options.settleDelay ?? 100;
+		this.timeout = options.timeout ?? 120_000;
+	}
+
+	/**
+	 * Wait until the lease is acquired, and keep renewing it until it is released
+	 *
+	 * @returns A function that releases the lease
+	 * @throws Error if the lease could not be acquired within `timeout`
+	 */
+	async acquire(): Promise<() => Promise<void>> {
+		const deadline = Date.now() + this.timeout;
+
+		while (true) {
+			const current = await this.read();
+			if (!current || current.expires <= Date.now()) {
+				const settle = Math.max(this.settleDelay, 2 * this.latency);
+				const token = crypto.randomUUID();
+				const started = Date.now();
+				await this.write(token, started + this.ttl);
+				const latency = Date.now() - started;
+				this.latency = Math.max(this.latency, latency);
+
+				// whoever wrote last holds the lease, unless others may have read their
+				// lease back before this one was visible: it is then left to expire
+				await sleep(settle);
+				if ((await this.read())?.token === token && latency <= settle) {
+					return this.hold(token, started + this.ttl);
+				}
+			}
+
+			// also when the lease is free, but every attempt to take it is lost
+			if (Date.now() >= deadline) {
+				const holder = await this.read();
+				throw new Error(
+					holder && holder.expires > Date.now()
+						? `Timed out waiting for the write lease held by "${holder.owner}"`
+						: "Timed out waiting for the write lease",
+				);
+			}
+
+			await sleep(this.retryDelay);
+		}
+	}
+
+	/**
+	 * Check that the lease is still held, before committing writes
+	 *
+	 * @throws Error if the lease is not held, or was taken over by another writer
+	 */
+	async check(): Promise<void> {
+		const held = this.held;
+		if (!held) {
+			throw new Error("The write lease is not held");
+		}
+		if (
+			held.lost ||
+			held.expires - this.latency <= Date.now() ||
+			(await this.read())?.token !== held.token
+		) {
+			held.lost = true;
+			throw new Error(`The write lease of "${this.owner}" was taken over`);
+		}
+	}
+
+	/** Start renewing an acquired lease, returning the function that releases it */
+	private hold(token: string, expires: number): () => Promise<void> {
+		const held: Held = {
+			token,
+			expires,
+			lost: false,
+			heartbeat: setInterval(() => {
+				held.renewal = held.renewal.then(() => this.renew(held));
+			}, this.ttl / 3),
+			renewal: Promise.resolve(),
+		};
+		// renewals must not keep the process alive
+		held.heartbeat.unref?.();
+		this.held = held;
+
+		return async () => {
+			clearInterval(held.heartbeat);
+			await held.renewal;
+			if (this.held === held) {
+				this.held = undefined;
+			}
+			await this.release(token);
+		};
+	}
+
+	/** Extend a held lease, unless it was taken over by another writer */
+	private async renew(held: Held): Promise<void> {
+		if (held.lost) return;
+		try {
+			if ((await this.read())?.token !== held.token) {
+				held.lost = true;
+				clearInterval(held.heartbeat);
+				return;
+			}
+			const started = Date.now();
+			await this.write(held.token, started + this.ttl);
+			held.expires = started + this.ttl;
+			this.latency = Math.max(this.latency, Date.now() - started);
+		} catch {
+			// retried on the next beat, the lease is valid until it expires
+		}
+	}
+
+	/** Release the lease, unless it has expired and was taken over by another writer */
+	private async release(token: string): Promise<void> {
+		if ((await this.read())?.token === token) {
+			await this.db.set_lease(null);
+		}
+	}
+
+	private async write(token: string, expires: number): Promise<void> {
+		const lease: Lease = {
+			owner: this.owner,
+			token,
+			expires,
+			latency: this.latency,
+		};
+		await this.db.set_lease(JSON.stringify(lease));
+	}
+
+	/** Read the lease, taking note of the latency of its writer */
+	private async read(): Promise<Lease | null> {
+		const serialized = await this.db.get_lease();
+		const lease: Lease | null = serialized ? JSON.parse(serialized) : null;
+		this.latency = Math.max(this.latency, lease?.latency ?? 0);
+		return lease;
+	}
+}
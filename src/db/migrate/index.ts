@@ -0,0 +1,151 @@
+import type { Point, WriteLock } from "../../types";
+import type { DBInterface } from "../interfaces";
+import { mutex_for } from "../lock";
+
+/** Options of {@link migrate_codec} */
+export type MigrationOptions = {
+	/** Number of points read and rewritten at once (default: 1000) */
+	batchSize?: number;
+	/** Write lock of the index, held during the migration if other processes write to it */
+	lock?: WriteLock;
+};
+
+/** Outcome of {@link migrate_codec} */
+export type MigrationReport = {
+	/** Number of rewritten vectors */
+	points: number;
+	/** Number of rewritten codes of quantized points */
+	codes: number;
+	/** Number of rewritten nodes, over all layers */
+	nodes: number;
+	/** Indices of points whose vector or codes could not be read, left as they are */
+	skipped: number[];
+};
+
+/**
+ * Rewrite every encoded value of an index in the codec format of its database.
+ *
+ * Decoders read all codec versions, so an index can be migrated by reading each value
+ * and writing it back: open the database with the new format (e.g. `EizenMemory` with
+ * `codec: { version: CODEC_VERSION, checksum: true }`) and migrate it. Vectors, codes of
+ * quantized points and the nodes of every layer are rewritten in batches, keeping the
+ * deleted flags; the entry point, counters, configuration and metadata are not encoded
+ * and stay untouched.
+ *
+ * Every batch is rewritten as it is, so an interrupted migration can simply be run again.
+ * Writes of `HNSW` instances in this process wait until the migration is done; pass the
+ * `lock` of the index if other processes write to it as well. It is checked before every
+ * batch, so that the migration stops if the lock is lost.
+ *
+ * @param db Database of the index, writing the format to migrate to
+ * @param options Batch size, and the write lock of the index
+ * @returns The number of rewritten values, and the points that could not be read
+ *
+ * @example
+ * ```typescript
+ * const db = new EizenMemory(contractSDK, { codec: { checksum: true } });
+ * const report = await migrate_codec(db);
+ * console.log(`Rewrote ${report.points} vectors and ${report.nodes} nodes`);
+ * ```
+ */
+export async function migrate_codec<M>(
+	db: DBInterface<M>,
+	options: MigrationOptions = {},
+): Promise<MigrationReport> {
+	const batchSize = options.batchSize ?? 1000;
+
+	return mutex_for(db).run(async () => {
+		const release = options.lock ? await options.lock.acquire() : undefined;
+		try {
+			const report: MigrationReport = {
+				points: 0,
+				codes: 0,
+				nodes: 0,
+				skipped: [],
+			};
+			const datasize = await db.get_datasize();
+			const numLayers = await db.get_num_layers();
+
+			// quantized indexes only keep full vectors to re-rank (see the `rerank` option)
+			const stored = await db.get_quantizer();
+			const quantized: { rerank: boolean } | null =
+				stored === null ? null : JSON.parse(stored);
+
+			for (let start = 0; start < datasize; start += batchSize) {
+				const chunk = Array.from(
+					{ length: Math.min(batchSize, datasize - start) },
+					(_, i) => start + i,
+				);
+
+				await options.lock?.check?.();
+
+				if (!quantized || quantized.rerank) {
+					// read in batch, and one by one if some of them are corrupted
+					const points: (Point | null)[] = await db
+						.get_points(chunk)
+						.catch(() =>
+							Promise.all(
+								chunk.map((idx) => db.get_point(idx).catch(() => null)),
+							),
+						);
+					const idxs = chunk.filter((idx, i) => {
+						if (points[i] !== null) return true;
+						report.skipped.push(idx);
+						return false;
+					});
+					if (idxs.length !== 0) {
+						await db.set_points(
+							idxs,
+							points.filter((p): p is Point => p !== null),
+						);
+						report.points += idxs.length;
+					}
+				}
+
+				if (quantized) {
+					// read in batch, and one by one if some of them are missing or corrupted
+					const codes: (number[] | null)[] = await db
+						.get_codes(chunk)
+						.catch(() =>
+							Promise.all(
+								chunk.map((idx) =>
+									db.get_codes([idx]).then(
+										([code]) => code,
+										() => null,
+									),
+								),
+							),
+						);
+					const idxs = chunk.filter((idx, i) => {
+						if (codes[i] !== null) return true;
+						if (!report.skipped.includes(idx)) report.skipped.push(idx);
+						return false;
+					});
+					if (idxs.length !== 0) {
+						await db.set_codes(
+							idxs,
+							codes.filter((c): c is number[] => c !== null),
+						);
+						report.codes += idxs.length;
+					}
+				}
+
+				for (let layer = 0; layer < numLayers; layer++) {
+					const exists = await db.has_neighbors(layer, chunk);
+					const idxs = chunk.filter((_, i) => exists[i]);
+					if (idxs.length === 0) continue;
+
+					const nodes = await db.get_neighbors(layer, idxs);
+					const visible = layer === 0 ? await db.get_visibilities(idxs) : [];
+					const deleted = idxs.filter((_, i) => layer === 0 && !visible[i]);
+					await db.upsert_neighbors(layer, nodes, deleted);
+					report.nodes += idxs.length;
+				}
+			}
+
+			return report;
+		} finally {
+			await release?.();
+		}
+	});
+}
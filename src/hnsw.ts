@@ -1,6 +1,37 @@
+import { BatchMemory } from "./db/batch";
 import type { DBInterface } from "./db/interfaces";
-import type { KNNResult, LayerNode, Node, Point } from "./types";
-import { NodeHeap, compareNode, cosine_distance } from "./utils";
+import { LoaderMemory } from "./db/loader";
+import { mutex_for } from "./db/lock";
+import { load_quantizer } from "./quantization";
+import type {
+	DistanceFunction,
+	DistanceTable,
+	FlatSearchOptions,
+	Graph,
+	HNSWOptions,
+	IndexConfig,
+	IntegrityIssue,
+	IntegrityReport,
+	KNNResult,
+	KNNSearchOptions,
+	LayerNode,
+	MetadataFilter,
+	NeighborSelection,
+	Node,
+	Point,
+	Quantizer,
+	RangeSearchOptions,
+	RebuildOptions,
+	SearchLayerOptions,
+	WriteLock,
+} from "./types";
+import {
+	NodeHeap,
+	compareNode,
+	matches_filter,
+	resolve_metric,
+	seeded_random,
+} from "./utils";
 
 /**
  * Hierarchical Navigable Small Worlds (HNSW) Implementation
@@ -75,6 +106,62 @@ export class HNSW<M = unknown> {
 	 */
 	ef: number;
 
+	/**
+	 * Name of the distance metric used by this index.
+	 * Persisted in the database on the first insert; opening an existing index
+	 * with a different metric is rejected.
+	 */
+	metric: string;
+
+	/**
+	 * Distance function used for all comparisons between points.
+	 * Resolved from the `metric` option (cosine distance by default).
+	 */
+	distance: DistanceFunction;
+
+	/**
+	 * Strategy for selecting the neighbors of a node:
+	 * - `simple`: Closest candidates first (default, no extra database reads)
+	 * - `heuristic`: Extended heuristic that also considers candidate-to-candidate distances
+	 */
+	neighbor_selection: NeighborSelection;
+
+	/** Whether the heuristic extends candidates with their own neighbors */
+	extend_candidates: boolean;
+
+	/** Whether discarded candidates are used to fill up remaining connections */
+	keep_pruned_connections: boolean;
+
+	/** Random number generator used to assign levels to new points */
+	random: () => number;
+
+	/** Indexes with fewer points than this are searched with `flat_search` (0 = never) */
+	flat_search_threshold: number;
+
+	/** Optional lock that serializes writers of different processes */
+	lock?: WriteLock;
+
+	/**
+	 * Quantizer of the points, if they are stored as codes.
+	 * Persisted in the database on the first insert, and loaded from it for existing indexes.
+	 */
+	quantizer?: Quantizer;
+
+	/** Whether full-precision vectors are stored next to the codes to re-rank results */
+	rerank: boolean;
+
+	/** Configuration of the index, once it has been read (or derived for older indexes) */
+	private config: IndexConfig | undefined;
+
+	/** Whether the configuration is stored in the database */
+	private configStored = false;
+
+	/** Whether the quantizer has already been checked against (or loaded from) the database */
+	private quantizerChecked = false;
+
+	/** Distance tables of the quantizer, computed once per query vector */
+	private tables = new WeakMap<Point, DistanceTable | null>();
+
 	/**
 	 * Constructs a new HNSW index with the specified parameters.
 	 *
@@ -82,6 +169,21 @@ export class HNSW<M = unknown> {
 	 * @param M Maximum number of connections per node (recommended: 16, range: [5-48])
 	 * @param ef_construction Size of candidate list during construction (recommended: 200)
 	 * @param ef_search Size of candidate list during search (recommended: 50, must be >= k)
+	 * @param options Optional index configuration:
+	 * - `metric`: Distance metric, `"cosine"` (default), `"l2"`, `"inner_product"` or a named custom function
+	 * - `neighborSelection`: `"simple"` (default) or `"heuristic"` for better connected graphs on clustered data
+	 * - `extendCandidates`: Extend heuristic candidates with their neighbors (default: false)
+	 * - `keepPrunedConnections`: Fill remaining connections with discarded candidates (default: true)
+	 * - `seed`: Seed for level assignment, inserting the same points in the same order then builds
+	 *   the exact same graph (default: unseeded `Math.random`)
+	 * - `random`: Custom random number generator in [0, 1) for level assignment, instead of `seed`
+	 * - `flatSearchThreshold`: Search indexes with fewer points exactly, with `flat_search` (default: 0, never)
+	 * - `lock`: Write lock shared by all writers of the index, e.g. a `LeaseLock`, needed when
+	 *   several processes write to it (writes within one process are always serialized)
+	 * - `quantizer`: Store points as codes of this quantizer, e.g. a `ScalarQuantizer`, and build
+	 *   the graph over the decoded vectors (default: none, full-precision vectors)
+	 * - `rerank`: With a quantizer, also store the full-precision vectors and re-rank the
+	 *   results of searches with them (default: false)
 	 *
 	 * @example
 	 * ```typescript
@@ -89,7 +191,8 @@ export class HNSW<M = unknown> {
 	 *   database,    // Your database implementation
 	 *   16,          // M: good balance of speed/quality
 	 *   200,         // ef_construction: high quality graph
-	 *   50           // ef_search: good search performance
+	 *   50,          // ef_search: good search performance
+	 *   { metric: "l2" } // Euclidean distance instead of cosine
 	 * );
 	 * ```
 	 */
@@ -98,6 +201,7 @@ export class HNSW<M = unknown> {
 		M: number,
 		ef_construction: number,
 		ef_search: number,
+		options: HNSWOptions = {},
 	) {
 		this.db = db;
 
@@ -109,6 +213,293 @@ export class HNSW<M = unknown> {
 		// Search quality parameters
 		this.ef_construction = ef_construction;
 		this.ef = ef_search;
+
+		// Distance metric
+		const { name, distance } = resolve_metric(options.metric ?? "cosine");
+		this.metric = name;
+		this.distance = distance;
+
+		// Neighbor selection strategy
+		this.neighbor_selection = options.neighborSelection ?? "simple";
+		this.extend_candidates = options.extendCandidates ?? false;
+		this.keep_pruned_connections = options.keepPrunedConnections ?? true;
+
+		// Level assignment, seeded for reproducible builds
+		this.random =
+			options.random ??
+			(options.seed !== undefined ? seeded_random(options.seed) : Math.random);
+
+		// Small indexes are searched exactly
+		this.flat_search_threshold = options.flatSearchThreshold ?? 0;
+
+		// Writes are always serialized within this process, the lock also across processes
+		this.lock = options.lock;
+
+		// Compact storage, loaded from the database for existing indexes
+		this.quantizer = options.quantizer;
+		this.rerank = options.rerank ?? false;
+	}
+
+	/**
+	 * Reads the configuration stored with the index (its header), and checks that this
+	 * instance matches it. This is done by the first operation of any kind, reads and
+	 * writes alike, and the configuration is kept for the following ones. Until an index
+	 * has points, there is nothing to check against and it is read again.
+	 *
+	 * Indexes that have points but no stored configuration were created before it was
+	 * stored: their metric is the one they stored on their own (cosine if none, from
+	 * before metrics were configurable) and their dimension that of the entry point.
+	 * Their configuration is stored on their next write, as is the metric of
+	 * configurations that were stored without it.
+	 *
+	 * `m` bounds the degree of every existing node, so writes with a different `m` are
+	 * rejected; reads do not depend on it. `ef_construction` may change between writers.
+	 *
+	 * @param write Whether the operation writes to the index
+	 * @throws {Error} If the index was built with another metric, or a write uses another `m`
+	 */
+	private async open(write: boolean): Promise<void> {
+		if (this.config === undefined) {
+			const stored = await this.db.get_config();
+			const ep = stored === null ? await this.db.get_ep() : null;
+			// nothing to compare against yet, the first insert will store it
+			if (stored === null && ep === null) return;
+
+			this.config = {
+				metric: stored?.metric ?? (await this.db.get_metric()) ?? "cosine",
+				dimension:
+					stored?.dimension ?? (await this.db.get_point(ep as number)).length,
+				m: stored?.m ?? this.m,
+				efConstruction: stored?.efConstruction ?? this.ef_construction,
+			};
+			this.configStored = stored?.metric !== undefined;
+		}
+
+		const { metric, m } = this.config;
+		if (metric !== this.metric) {
+			throw new Error(
+				`Index was built with the "${metric}" metric, but "${this.metric}" was requested`,
+			);
+		}
+		if (write) {
+			if (m !== this.m) {
+				throw new Error(
+					`Index was built with m = ${m}, but m = ${this.m} was requested`,
+				);
+			}
+			await this.store_config();
+		}
+	}
+
+	/**
+	 * Ensures that a vector matches the configuration stored with the index, see `open`.
+	 * The configuration of an empty index is taken from its first insert.
+	 *
+	 * @param q A vector that is inserted or searched for
+	 * @param write Whether the operation writes to the index
+	 * @throws {Error} If the vector has the wrong dimension, or the index does not match
+	 */
+	private async check_config(q: Point, write: boolean): Promise<void> {
+		if (q.length === 0) {
+			throw new Error("Vectors must have at least one dimension");
+		}
+
+		await this.open(write);
+		if (this.config === undefined) {
+			if (!write) return;
+			this.config = {
+				metric: this.metric,
+				dimension: q.length,
+				m: this.m,
+				efConstruction: this.ef_construction,
+			};
+			await this.store_config();
+		}
+
+		const { dimension } = this.config;
+		if (q.length !== dimension) {
+			throw new Error(
+				`Expected a vector of dimension ${dimension}, got ${q.length}`,
+			);
+		}
+	}
+
+	/**
+	 * Stores the configuration of the index, if it is not stored yet.
+	 */
+	private async store_config(): Promise<void> {
+		if (this.configStored || this.config === undefined) return;
+		await this.check_lock();
+		await this.db.set_config(this.config);
+		this.configStored = true;
+	}
+
+	/**
+	 * Ensures that the configured quantizer matches the one stored with the index, and
+	 * loads the stored one (with its trained parameters) for existing quantized indexes.
+	 *
+	 * The quantizer is written with the first insert. Indexes that have points but no
+	 * stored quantizer keep their full-precision vectors, and cannot be quantized later on.
+	 *
+	 * @param persist Whether to store the quantizer if the index is empty (only done on writes)
+	 * @throws {Error} If the index was quantized differently, or not at all
+	 */
+	private async check_quantizer(persist: boolean): Promise<void> {
+		if (this.quantizerChecked) return;
+
+		const stored = await this.db.get_quantizer();
+		if (stored !== null) {
+			const { quantizer, rerank } = JSON.parse(stored);
+			if (this.quantizer && this.quantizer.kind !== quantizer.kind) {
+				throw new Error(
+					`Index was built with the "${quantizer.kind}" quantizer, but "${this.quantizer.kind}" was requested`,
+				);
+			}
+			this.quantizer = load_quantizer(quantizer);
+			this.rerank = rerank;
+		} else if ((await this.db.get_datasize()) !== 0) {
+			if (this.quantizer) {
+				throw new Error(
+					"Index was built without quantization, rebuild it to quantize it",
+				);
+			}
+		} else {
+			// nothing to compare against yet, the first insert will store it
+			if (!persist) return;
+			if (this.quantizer) {
+				await this.db.set_quantizer(
+					JSON.stringify({ quantizer: this.quantizer, rerank: this.rerank }),
+				);
+			}
+		}
+		this.quantizerChecked = true;
+	}
+
+	/**
+	 * Reads the vectors that distances within the graph are computed with: the decoded
+	 * codes of a quantized index, the stored vectors otherwise.
+	 */
+	private async read_vectors(idxs: number[]): Promise<Point[]> {
+		await this.check_quantizer(false);
+		const quantizer = this.quantizer;
+		if (!quantizer) return this.db.get_points(idxs);
+
+		const codes = await this.db.get_codes(idxs);
+		return codes.map((c) => quantizer.decode(c));
+	}
+
+	/**
+	 * Computes the distances from a vector to points of the graph.
+	 *
+	 * If the quantizer has a distance table for the metric, the distances are looked up
+	 * from the codes of the points (asymmetric distance computation); the table of a
+	 * vector is computed on its first use and shared by all layers of its search.
+	 * Otherwise the points are read and compared with the distance function.
+	 *
+	 * @param q The vector (a query, or a point being inserted)
+	 * @param idxs Indices of the points
+	 */
+	private async distances_to(q: Point, idxs: number[]): Promise<number[]> {
+		await this.check_quantizer(false);
+		const quantizer = this.quantizer;
+		if (quantizer?.distance_table) {
+			let table = this.tables.get(q);
+			if (table === undefined) {
+				table = quantizer.distance_table(q, this.metric) ?? null;
+				this.tables.set(q, table);
+			}
+			if (table) {
+				const codes = await this.db.get_codes(idxs);
+				return codes.map(table);
+			}
+		}
+
+		const points = await this.read_vectors(idxs);
+		return points.map((p) => this.distance(p, q));
+	}
+
+	/** Reads a single vector of the graph, see `read_vectors` */
+	private async read_vector(idx: number): Promise<Point> {
+		const [point] = await this.read_vectors([idx]);
+		return point;
+	}
+
+	/**
+	 * Reads the most precise vectors available: the stored full-precision vectors, or the
+	 * decoded codes of a quantized index that does not keep them.
+	 */
+	private async exact_vectors(idxs: number[]): Promise<Point[]> {
+		await this.check_quantizer(false);
+		if (this.quantizer && !this.rerank) return this.read_vectors(idxs);
+		return this.db.get_points(idxs);
+	}
+
+	/**
+	 * Stores the vector of a new point, as codes if the index is quantized.
+	 *
+	 * @returns The index assigned to the point, and the vector to build the graph with
+	 */
+	private async store_point(q: Point): Promise<{ idx: number; point: Point }> {
+		const quantizer = this.quantizer;
+		if (!quantizer) {
+			return { idx: await this.db.new_point(q), point: q };
+		}
+
+		const codes = quantizer.encode(q);
+		let idx: number;
+		if (this.rerank) {
+			idx = await this.db.new_point(q);
+			await this.db.set_codes([idx], [codes]);
+		} else {
+			[idx] = await this.db.new_codes([codes]);
+		}
+		return { idx, point: quantizer.decode(codes) };
+	}
+
+	/**
+	 * Overwrites the vector of an existing point, as codes if the index is quantized.
+	 *
+	 * @returns The vector to build the graph with
+	 */
+	private async store_update(idx: number, q: Point): Promise<Point> {
+		const quantizer = this.quantizer;
+		if (!quantizer) {
+			await this.db.set_point(idx, q);
+			return q;
+		}
+
+		const codes = quantizer.encode(q);
+		if (this.rerank) {
+			await this.db.set_point(idx, q);
+		}
+		await this.db.set_codes([idx], [codes]);
+		return quantizer.decode(codes);
+	}
+
+	/**
+	 * Re-ranks search results with the full-precision vectors, if the index keeps them
+	 * next to the codes; the order of other indexes is already exact.
+	 *
+	 * @param q The query vector
+	 * @param nodes Results as [distance, point_id] pairs
+	 * @returns The results with exact distances, sorted by distance
+	 */
+	private async rerank_nodes(q: Point, nodes: Node[]): Promise<Node[]> {
+		if (!this.quantizer || !this.rerank || nodes.length === 0) return nodes;
+
+		const points = await this.db.get_points(nodes.map(([, id]) => id));
+		return nodes
+			.map(([, id], i) => [this.distance(q, points[i]), id] as Node)
+			.sort(compareNode);
+	}
+
+	/**
+	 * Returns the indices among the given ones that are marked as deleted.
+	 * Used to keep tombstones intact when rewriting layer-0 neighbor lists.
+	 */
+	private async deleted_among(idxs: number[]): Promise<number[]> {
+		const visibilities = await this.db.get_visibilities(idxs);
+		return idxs.filter((_, i) => !visibilities[i]);
 	}
 
 	/**
@@ -131,11 +522,58 @@ export class HNSW<M = unknown> {
 		point: Point;
 		metadata: M | null;
 	}> {
-		const point = await this.db.get_point(idx);
+		await this.open(false);
+		const [point] = await this.exact_vectors([idx]);
 		const metadata = await this.db.get_metadata(idx);
 		return { point, metadata };
 	}
 
+	/**
+	 * Draws a uniform random sample of the live points of the index.
+	 *
+	 * Useful to train a quantizer on the data that is already indexed, before rebuilding
+	 * the index with it. Deleted points and points that were never fully inserted are
+	 * left out.
+	 *
+	 * @param count Number of points to draw, all live points if the index has fewer
+	 * @param seed Optional seed, drawing the same sample every time
+	 * @returns The vectors of the sampled points, in random order
+	 *
+	 * @example
+	 * ```typescript
+	 * const sample = await hnsw.sample_points(5000);
+	 * const quantizer = ProductQuantizer.fit(sample, { subspaces: 192 });
+	 * const { index } = await hnsw.rebuild(newDb, { quantizer });
+	 * ```
+	 */
+	async sample_points(count: number, seed?: number): Promise<Point[]> {
+		await this.open(false);
+		const random = seed !== undefined ? seeded_random(seed) : Math.random;
+		const datasize = await this.db.get_datasize();
+		const order = Array.from({ length: datasize }, (_, i) => i);
+
+		// shuffle lazily, reading as many points as are still missing at a time
+		const sample: Point[] = [];
+		let drawn = 0;
+		while (drawn < datasize && sample.length < count) {
+			const chunk: number[] = [];
+			while (drawn < datasize && chunk.length < count - sample.length) {
+				const j = drawn + Math.floor(random() * (datasize - drawn));
+				[order[drawn], order[j]] = [order[j], order[drawn]];
+				chunk.push(order[drawn++]);
+			}
+
+			const linked = await this.db.has_neighbors(0, chunk);
+			const candidates = chunk.filter((_, i) => linked[i]);
+			const visible = await this.db.get_visibilities(candidates);
+			const live = candidates.filter((_, i) => visible[i]);
+			if (live.length !== 0) {
+				sample.push(...(await this.exact_vectors(live)));
+			}
+		}
+		return sample;
+	}
+
 	/**
 	 * Selects which layer a new point should be inserted into.
 	 *
@@ -150,6 +588,9 @@ export class HNSW<M = unknown> {
 	 * - ~12.5% of points reach layer 2 or higher
 	 * - etc.
 	 *
+	 * Draws from the generator configured with the `seed` / `random` options, so that
+	 * seeded indexes assign the same layers on every build.
+	 *
 	 * @returns The layer number (0-based) where the new point should be inserted
 	 *
 	 * @example
@@ -158,7 +599,8 @@ export class HNSW<M = unknown> {
 	 * ```
 	 */
 	select_layer() {
-		return Math.floor(-Math.log(Math.random()) * this.ml);
+		// 1 - random() is in (0, 1], so that a draw of 0 cannot produce an infinite layer
+		return Math.floor(-Math.log(1 - this.random()) * this.ml);
 	}
 
 	/**
@@ -178,6 +620,7 @@ export class HNSW<M = unknown> {
 	 *
 	 * @param q The vector to insert (array of numbers representing the point in space)
 	 * @param metadata Optional metadata to associate with this point (e.g., document ID, labels)
+	 * @returns The index assigned to the new point
 	 *
 	 * @example
 	 * ```typescript
@@ -193,21 +636,34 @@ export class HNSW<M = unknown> {
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 1 (page 7)
 	 */
-	async insert(q: Point, metadata?: M) {
+	async insert(q: Point, metadata?: M): Promise<number> {
+		return this.write(() => this.add_point(q, metadata));
+	}
+
+	/**
+	 * Inserts a point without taking the write lock, see `insert`.
+	 * Callers must hold the write lock.
+	 */
+	private async add_point(vector: Point, metadata?: M): Promise<number> {
+		await this.check_config(vector, true);
+		await this.check_quantizer(true);
+
 		// Get current state of the index
 		const ep_index = await this.db.get_ep();
 		const L = (await this.db.get_num_layers()) - 1; // Current top layer (0-indexed)
 		const l = this.select_layer(); // Layer where new point will be inserted
 
-		// Add the point to database and get its assigned index
-		const idx = await this.db.new_point(q);
+		// Add the point to database and get its assigned index, the graph is built
+		// with the vector as it is stored (decoded from its codes if quantized)
+		await this.check_lock();
+		const { idx, point: q } = await this.store_point(vector);
 		if (metadata) {
 			await this.db.set_metadata(idx, metadata);
 		}
 
 		// CASE 1: Index is not empty - need to find entry point and insert into layers
 		if (ep_index !== null) {
-			const dist = cosine_distance(q, await this.db.get_point(ep_index));
+			const dist = (await this.distances_to(q, [ep_index]))[0];
 
 			// PHASE 1: Search from top layer (L) down to layer (l+1) to find entry point
 			// This is a greedy search that finds the closest point in each layer
@@ -215,81 +671,881 @@ export class HNSW<M = unknown> {
 			for (let i = L; i > l; i--) {
 				const ep_copy: Node[] = ep.map((e) => [e[0], e[1]]);
 
-				// Search with ef=1 (only find the single closest neighbor)
-				const W = await this.search_layer(q, ep_copy, 1, i);
+				// Search with ef=1 (only find the single closest neighbor)
+				const W = await this.search_layer(q, ep_copy, 1, i);
+
+				// Update entry point if we found something closer
+				if (W.length > 0 && ep[0][0] > W[0][0]) {
+					ep = W;
+				}
+			}
+
+			// PHASE 2: Insert the point into each layer from min(L, l) down to 0
+			for (let l_c = Math.min(L, l); l_c >= 0; l_c--) {
+				// Search for neighbors in current layer with larger candidate list
+				const W = await this.search_layer(q, ep, this.ef_construction, l_c);
+
+				// Update entry point for next layer
+				ep = W.map((e) => [e[0], e[1]] as Node);
+
+				// Select the best neighbors using Algorithm 4 (neighbor selection heuristic)
+				const neighbors = await this.choose_neighbors(q, W, l_c, idx);
+				const indices = neighbors.map(([, idx]) => idx);
+				const nodes = await this.db.get_neighbors(l_c, indices);
+				const deleted = l_c === 0 ? await this.deleted_among(indices) : [];
+
+				// PHASE 3 & 4: Create bidirectional connections and prune overfull neighbors
+				const newNode = await this.link_neighbors(idx, neighbors, nodes, l_c);
+
+				// Save the new connections to the database
+				await this.check_lock();
+				await this.db.upsert_neighbor(l_c, idx, newNode);
+				await this.db.upsert_neighbors(l_c, nodes, deleted);
+			}
+		}
+
+		// PHASE 5: Update global state if new point created new layers
+		const LL = await this.db.get_num_layers();
+		if (LL < l + 1) {
+			await this.check_lock();
+			// New point is now the entry point (highest layer)
+			await this.db.set_ep(idx);
+		}
+
+		// Create empty neighbor lists for new layers
+		// TODO: This could be optimized to create all new layers in parallel
+		for (let i = LL; i < l + 1; i++) {
+			await this.db.new_neighbor(idx);
+		}
+
+		return idx;
+	}
+
+	/**
+	 * Inserts a batch of vectors, coalescing their storage writes.
+	 *
+	 * The points are inserted one after another exactly like `insert` does, but against
+	 * a {@link BatchMemory} overlay instead of the database itself. Reads are shared between
+	 * the inserts of the batch, and all writes are committed at the end with only a handful
+	 * of batched calls: one for the points, one for the metadata and one per layer for the
+	 * neighbor lists. This is much faster than calling `insert` in a loop on storage where
+	 * every call is a separate request or transaction.
+	 *
+	 * All points of a batch are kept in memory until they are committed, so very large
+	 * datasets should be inserted in chunks (e.g., of a few thousand points).
+	 *
+	 * NOTE: Nothing is written if any insert fails, or if the write lock was lost while the
+	 * batch was running, and points inserted by others in the meantime make the commit fail.
+	 *
+	 * @param points The vectors to insert
+	 * @param metadatas Optional metadata for each vector, in the same order as the vectors
+	 * @returns The indices assigned to the new points, in the same order as the vectors
+	 * @throws {Error} If `metadatas` is given with a different length than `points`
+	 *
+	 * @example
+	 * ```typescript
+	 * const ids = await hnsw.insertMany(
+	 *   [[0.1, 0.2, 0.3], [0.4, 0.5, 0.6]],
+	 *   [{ title: 'first' }, { title: 'second' }]
+	 * );
+	 * console.log(ids); // [0, 1] on an empty index
+	 * ```
+	 */
+	async insertMany(
+		points: Point[],
+		metadatas?: (M | undefined)[],
+	): Promise<number[]> {
+		if (metadatas && metadatas.length !== points.length) {
+			throw new Error(
+				`Expected ${points.length} metadatas for ${points.length} points, got ${metadatas.length}`,
+			);
+		}
+
+		return this.write(async () => {
+			const batch = new BatchMemory<M>(this.db);
+			const staged = this.with_db(batch);
+
+			const idxs: number[] = [];
+			for (let i = 0; i < points.length; i++) {
+				idxs.push(await staged.add_point(points[i], metadatas?.[i]));
+			}
+			await this.check_lock();
+			await batch.flush();
+
+			// the copy has checked the config on behalf of this index
+			this.config = staged.config;
+			this.configStored = staged.configStored;
+			this.quantizerChecked = staged.quantizerChecked;
+			this.quantizer = staged.quantizer;
+			this.rerank = staged.rerank;
+
+			return idxs;
+		});
+	}
+
+	/**
+	 * Runs a write operation exclusively.
+	 *
+	 * Writes read counters (number of points and layers) and rewrite neighbor lists, so two
+	 * writes running at the same time overwrite each other. Within this process, writes to
+	 * the same database are queued and run one after another. If a `lock` is configured,
+	 * it is held as well, which serializes writers of different processes, and checked
+	 * before the points, nodes and entry point are written (see `check_lock`).
+	 *
+	 * @param fn The write operation
+	 * @returns The result of the write operation
+	 */
+	private async write<T>(fn: () => Promise<T>): Promise<T> {
+		return mutex_for(this.db).run(async () => {
+			const release = this.lock ? await this.lock.acquire() : undefined;
+			try {
+				return await fn();
+			} finally {
+				await release?.();
+			}
+		});
+	}
+
+	/**
+	 * Checks that the write lock is still held, before writing to the database.
+	 *
+	 * Writes staged in a {@link BatchMemory} are only checked once, before they are
+	 * committed (see `insertMany`).
+	 *
+	 * @throws {Error} If the write lock was lost, e.g. a lease that was taken over
+	 */
+	private async check_lock(): Promise<void> {
+		if (this.db instanceof BatchMemory) return;
+		await this.lock?.check?.();
+	}
+
+	/**
+	 * Creates a copy of this index with the same configuration that works on another database.
+	 *
+	 * @param db Database for the copy to use
+	 */
+	protected with_db(db: DBInterface<M>): this {
+		const copy = Object.create(Object.getPrototypeOf(this)) as this;
+		Object.assign(copy, this);
+		copy.db = db;
+		return copy;
+	}
+
+	/**
+	 * Creates bidirectional connections between a point and its selected neighbors
+	 * within a layer, pruning every neighbor that ends up with too many connections.
+	 *
+	 * @param idx Index of the point being connected
+	 * @param neighbors Selected neighbors of the point as [distance, point_id] pairs
+	 * @param nodes Current connections of the selected neighbors, updated in place
+	 * @param l_c The layer in which the connections are created
+	 * @returns The connections of the point itself
+	 */
+	private async link_neighbors(
+		idx: number,
+		neighbors: Node[],
+		nodes: Graph,
+		l_c: number,
+	): Promise<LayerNode> {
+		const newNode: LayerNode = {}; // Connections for the point
+
+		// Determine maximum connections allowed for this layer
+		const M = l_c === 0 ? this.m_max0 : this.m;
+
+		// Create bidirectional connections between the point and selected neighbors
+		for (const e of neighbors) {
+			newNode[e[1]] = e[0]; // Connect point to neighbor
+			nodes[e[1]][idx] = e[0]; // Connect neighbor back to point
+		}
+
+		// Prune connections if any neighbor now has too many connections
+		for (const e of neighbors) {
+			// Get all connections for this neighbor
+			const eConn = Object.entries(nodes[e[1]]).map(
+				([k, v]) => [v, Number.parseInt(k)] as Node,
+			);
+
+			// If neighbor has too many connections, prune to the best ones
+			if (eConn.length > M) {
+				// Use neighbor selection heuristic to keep only the best connections
+				const eNewConn = await this.choose_neighbors(
+					await this.read_vector(e[1]),
+					eConn,
+					l_c,
+					e[1],
+				);
+
+				// Convert selected connections back to dictionary format
+				const dict: Record<number, number> = {};
+				for (const eNew of eNewConn) {
+					dict[eNew[1]] = eNew[0];
+				}
+
+				nodes[e[1]] = dict; // Update neighbor's connection list
+			}
+		}
+
+		return newNode;
+	}
+
+	/**
+	 * Replaces the vector of an existing point and repairs its neighborhood.
+	 *
+	 * Re-embedding a document should not create a duplicate, so the point keeps its
+	 * index and is re-linked in place on every layer it lives on:
+	 *
+	 * 1. **Unlinking**: Edges between the point and its former neighbors are removed, and the
+	 *    stale distances of all other edges pointing to the point are measured again
+	 * 2. **Repairing**: Former neighbors that lost their link are reconnected among the
+	 *    point's other former neighbors, so that they stay well connected
+	 * 3. **Re-linking**: New neighbors are searched for the new vector and connected
+	 *    bidirectionally, just like during insertion
+	 *
+	 * The layer assignment and deletion state of the point are left unchanged.
+	 *
+	 * NOTE: Only outgoing edges are stored, so finding the edges pointing to the point reads
+	 * every node of its layers, which is slow on remote storage.
+	 *
+	 * @param idx The index of the point to update
+	 * @param q The new vector of the point
+	 * @param metadata Optional new metadata; existing metadata is kept if omitted
+	 * @throws {Error} If there is no point with the given index
+	 *
+	 * @example
+	 * ```typescript
+	 * // re-embed a document with a newer model
+	 * await hnsw.update(42, newEmbedding, { filename: 'doc.pdf', model: 'v2' });
+	 * ```
+	 */
+	async update(idx: number, q: Point, metadata?: M): Promise<void> {
+		return this.write(() => this.update_point(idx, q, metadata));
+	}
+
+	/**
+	 * Updates a point without taking the write lock, see `update`.
+	 * Callers must hold the write lock.
+	 */
+	private async update_point(
+		idx: number,
+		vector: Point,
+		metadata?: M,
+	): Promise<void> {
+		await this.check_config(vector, true);
+		await this.check_quantizer(true);
+
+		const datasize = await this.db.get_datasize();
+		if (!Number.isInteger(idx) || idx < 0 || idx >= datasize) {
+			throw new Error(`No point with index ${idx}`);
+		}
+
+		await this.check_lock();
+		const q = await this.store_update(idx, vector);
+		if (metadata !== undefined) {
+			await this.db.set_metadata(idx, metadata);
+		}
+
+		// Find the top layer of the point, it lives on all layers below it as well
+		const L = (await this.db.get_num_layers()) - 1;
+		let top = 0;
+		while (top < L && (await this.db.has_neighbors(top + 1, [idx]))[0]) {
+			top++;
+		}
+
+		const ep_index = await this.db.get_ep();
+		if (ep_index === null) return;
+
+		// Route from the top layer down to the top layer of the point
+		const dist = (await this.distances_to(q, [ep_index]))[0];
+		let ep: Node[] = [[dist, ep_index]];
+		for (let l_c = L; l_c > top; l_c--) {
+			ep = await this.search_layer(q, ep, 1, l_c);
+		}
+
+		for (let l_c = top; l_c >= 0; l_c--) {
+			const oldNeighbors = Object.keys(
+				await this.db.get_neighbor(l_c, idx),
+			).map((k) => Number.parseInt(k));
+
+			// Search for the new neighbors, leaving out the point itself
+			const W = (
+				await this.search_layer(q, ep, this.ef_construction + 1, l_c)
+			).filter(([, id]) => id !== idx);
+			if (W.length !== 0) {
+				ep = W.map((e) => [e[0], e[1]] as Node);
+			}
+
+			const neighbors = await this.choose_neighbors(q, W, l_c, idx);
+			const indices = neighbors.map(([, id]) => id);
+			const affected = [...new Set([...oldNeighbors, ...indices])];
+			// other nodes with an edge towards the point, which pruning left one-directional
+			const sources = (await this.sources_of(idx, l_c, datasize)).filter(
+				(s) => s !== idx && !affected.includes(s),
+			);
+			const nodes = await this.db.get_neighbors(l_c, [...affected, ...sources]);
+			const deleted =
+				l_c === 0
+					? await this.deleted_among([...affected, ...sources, idx])
+					: [];
+
+			// Remove the edges between the point and its neighbors, and measure the others again
+			for (const a of affected) {
+				delete nodes[a][idx];
+			}
+			const sourcePoints = await this.read_vectors(sources);
+			sources.forEach((s, i) => {
+				nodes[s][idx] = this.distance(q, sourcePoints[i]);
+			});
+
+			// Reconnect former neighbors that are not linked again among each other
+			const orphans = oldNeighbors.filter((o) => !indices.includes(o));
+			if (orphans.length !== 0) {
+				const points = await this.read_vectors(oldNeighbors);
+				const pointOf = (id: number) => points[oldNeighbors.indexOf(id)];
+
+				for (const o of orphans) {
+					const oConn = Object.entries(nodes[o]).map(
+						([k, v]) => [v, Number.parseInt(k)] as Node,
+					);
+					for (const c of oldNeighbors) {
+						if (c !== o && !(c in nodes[o])) {
+							oConn.push([this.distance(pointOf(o), pointOf(c)), c]);
+						}
+					}
+
+					const dict: LayerNode = {};
+					for (const e of await this.choose_neighbors(
+						pointOf(o),
+						oConn,
+						l_c,
+						o,
+					)) {
+						dict[e[1]] = e[0];
+					}
+					nodes[o] = dict;
+				}
+			}
+
+			const newNode = await this.link_neighbors(idx, neighbors, nodes, l_c);
+
+			await this.check_lock();
+			await this.db.upsert_neighbor(l_c, idx, newNode, !deleted.includes(idx));
+			await this.db.upsert_neighbors(
+				l_c,
+				nodes,
+				deleted.filter((d) => d !== idx),
+			);
+		}
+	}
+
+	/**
+	 * Finds the nodes of a layer with an edge towards a point, see `update`.
+	 *
+	 * NOTE: This reads the whole layer, as only outgoing edges are stored.
+	 *
+	 * @param idx Index of the point
+	 * @param l_c The layer to search
+	 * @param datasize Number of points in the index
+	 */
+	private async sources_of(
+		idx: number,
+		l_c: number,
+		datasize: number,
+	): Promise<number[]> {
+		const idxs = Array.from({ length: datasize }, (_, i) => i);
+		const exists = await this.db.has_neighbors(l_c, idxs);
+		const present = idxs.filter((_, i) => exists[i]);
+		const graph =
+			present.length !== 0 ? await this.db.get_neighbors(l_c, present) : {};
+		return Object.entries(graph)
+			.filter(([, node]) => idx in node)
+			.map(([key]) => Number.parseInt(key));
+	}
+
+	/**
+	 * Deletes a point from the index by marking it with a tombstone.
+	 *
+	 * The point is flagged as invisible on its layer-0 node, but stays in the graph:
+	 * searches still route through it so that the graph remains connected, yet it is
+	 * never returned as a result. The stored vector and metadata are left untouched.
+	 *
+	 * @param idx The index of the point to delete
+	 * @throws {Error} If there is no point with the given index
+	 *
+	 * @example
+	 * ```typescript
+	 * await hnsw.delete(42);
+	 * const results = await hnsw.knn_search(query, 10); // never contains 42
+	 * ```
+	 */
+	async delete(idx: number): Promise<void> {
+		return this.write(async () => {
+			await this.open(true);
+			const datasize = await this.db.get_datasize();
+			if (!Number.isInteger(idx) || idx < 0 || idx >= datasize) {
+				throw new Error(`No point with index ${idx}`);
+			}
+			await this.check_lock();
+			await this.db.set_visibility(idx, false);
+		});
+	}
+
+	/**
+	 * Rebuilds this index into another database, with a fresh graph.
+	 *
+	 * All live points are read in batches, together with their metadata, and inserted
+	 * into the target database with `insertMany`, which builds a new, well connected graph
+	 * regardless of how the current one has degraded over time. Deleted points are left
+	 * out, as are corrupted entries: points without a node in layer 0 (interrupted inserts)
+	 * and points whose vector cannot be read.
+	 *
+	 * The parameters of the new index can be changed on the way, everything that is not
+	 * given is taken over from this index. The metric always stays the same.
+	 *
+	 * Points get new, consecutive indices in the target database. The returned `ids` map
+	 * translates the old indices to the new ones, e.g. to update references held elsewhere.
+	 *
+	 * NOTE: Writes to this index wait until the rebuild is done.
+	 *
+	 * @param targetDb An empty database to build the new index in
+	 * @param options Parameters of the new index (`m`, `efConstruction`, `efSearch`, and
+	 *   other index options such as `neighborSelection` or `seed`), and `batchSize`
+	 * @returns The new index, the mapping from old to new indices, and the skipped old indices
+	 *   (corrupted ones, deleted points are not listed)
+	 * @throws {Error} If the target database already contains points
+	 *
+	 * @example
+	 * ```typescript
+	 * const { index, ids, skipped } = await hnsw.rebuild(new EizenMemory(newContractSDK), {
+	 *   m: 16,
+	 *   efConstruction: 200,
+	 * });
+	 * console.log(`Rebuilt ${ids.size} points, skipped ${skipped.length} corrupted ones`);
+	 * ```
+	 */
+	async rebuild(
+		targetDb: DBInterface<M>,
+		options: RebuildOptions = {},
+	): Promise<{ index: HNSW<M>; ids: Map<number, number>; skipped: number[] }> {
+		if ((await targetDb.get_datasize()) !== 0) {
+			throw new Error("Target database of a rebuild must be empty");
+		}
+		await this.open(false);
+
+		const index = new HNSW<M>(
+			targetDb,
+			options.m ?? this.m,
+			options.efConstruction ?? this.ef_construction,
+			options.efSearch ?? this.ef,
+			{
+				metric: { name: this.metric, distance: this.distance },
+				neighborSelection: options.neighborSelection ?? this.neighbor_selection,
+				extendCandidates: options.extendCandidates ?? this.extend_candidates,
+				keepPrunedConnections:
+					options.keepPrunedConnections ?? this.keep_pruned_connections,
+				flatSearchThreshold:
+					options.flatSearchThreshold ?? this.flat_search_threshold,
+				seed: options.seed,
+				random: options.random,
+				lock: options.lock,
+				quantizer: options.quantizer,
+				rerank: options.rerank,
+			},
+		);
+		const batchSize = options.batchSize ?? 1000;
+
+		return this.write(async () => {
+			const ids = new Map<number, number>();
+			const skipped: number[] = [];
+			const datasize = await this.db.get_datasize();
+
+			for (let start = 0; start < datasize; start += batchSize) {
+				const chunk = Array.from(
+					{ length: Math.min(batchSize, datasize - start) },
+					(_, i) => start + i,
+				);
+
+				// Points without a layer-0 node were never fully inserted
+				const linked = await this.db.has_neighbors(0, chunk);
+				skipped.push(...chunk.filter((_, i) => !linked[i]));
+				const candidates = chunk.filter((_, i) => linked[i]);
+
+				const visible = await this.db.get_visibilities(candidates);
+				const live = candidates.filter((_, i) => visible[i]);
+
+				// Read vectors in batch, and one by one if some of them are corrupted
+				const points: (Point | null)[] = await this.exact_vectors(live).catch(
+					() =>
+						Promise.all(
+							live.map((idx) =>
+								this.exact_vectors([idx]).then(
+									([point]) => point,
+									() => null,
+								),
+							),
+						),
+				);
+				const metadatas = await this.db.get_metadatas(live);
+
+				const valid = live.filter((idx, i) => {
+					if (points[i]) return true;
+					skipped.push(idx);
+					return false;
+				});
+				const newIds = await index.insertMany(
+					points.filter((p): p is Point => p !== null),
+					metadatas
+						.filter((_, i) => points[i] !== null)
+						.map((data) => data ?? undefined),
+				);
+				valid.forEach((idx, i) => ids.set(idx, newIds[i]));
+			}
+
+			skipped.sort((a, b) => a - b);
+			return { index, ids, skipped };
+		});
+	}
+
+	/**
+	 * Checks the stored graph for structural problems.
+	 *
+	 * Walks every layer through the database and reports:
+	 * - a missing or invalid entry point (not in the top layer)
+	 * - points that are missing a node in a layer (e.g. left behind by an insert that
+	 *   failed after `new_point` succeeded)
+	 * - edges to nodes that do not exist, and one-directional edges
+	 * - nodes with more connections than `m` (or `m_max0` in layer 0)
+	 * - nodes that cannot be reached from the entry point
+	 *
+	 * One-directional edges are reported, but do not make the index invalid: pruning
+	 * creates them during regular inserts.
+	 *
+	 * NOTE: This reads the whole graph into memory, which is slow on remote storage.
+	 *
+	 * @returns The report with all issues found
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = await hnsw.verify();
+	 * if (!report.valid) {
+	 *   console.log(report.issues);
+	 *   await hnsw.repair();
+	 * }
+	 * ```
+	 */
+	async verify(): Promise<IntegrityReport> {
+		await this.open(false);
+		const { report } = await this.scan();
+		return report;
+	}
+
+	/**
+	 * Checks the stored graph like `verify`, and repairs the issues found.
+	 *
+	 * - The entry point is set to a node of the top layer
+	 * - Dangling edges are removed
+	 * - Nodes with too many connections are pruned
+	 * - Missing and unreachable nodes are linked again, like they would be on insert
+	 * - One-directional edges are made bidirectional, where the degree allows it
+	 *
+	 * Deleted points stay deleted. Linking nodes again may prune other connections, so
+	 * a few one-directional edges may remain; `verify` afterwards to see what is left.
+	 *
+	 * @returns The report with the issues found before repairing
+	 *
+	 * @example
+	 * ```typescript
+	 * const { issues } = await hnsw.repair();
+	 * console.log(`Repaired ${issues.length} issues`);
+	 * ```
+	 */
+	async repair(): Promise<IntegrityReport> {
+		return this.write(async () => {
+			await this.open(true);
+			const { report, graphs } = await this.scan();
+			const L = graphs.length - 1;
+
+			// Entry point: any node of the top layer, or the former entry point
+			// (or the first point) if the top layer is empty
+			const epIssue = report.issues.find(
+				(i) =>
+					i.type === "missing_entry_point" || i.type === "invalid_entry_point",
+			);
+			if (epIssue && report.points !== 0) {
+				const top =
+					L >= 0 ? Object.keys(graphs[L]).map((k) => Number.parseInt(k)) : [];
+				const ep =
+					top[0] ??
+					(epIssue.type === "invalid_entry_point" && epIssue.ep < report.points
+						? epIssue.ep
+						: 0);
+				await this.check_lock();
+				if (L < 0) {
+					await this.db.new_neighbor(ep);
+				} else if (top.length === 0) {
+					await this.db.upsert_neighbor(L, ep, {});
+					graphs[L][ep] = {};
+				}
+				await this.db.set_ep(ep);
+			}
+
+			// Dangling edges are removed from their nodes
+			const changed = new Map<number, Set<number>>();
+			const touch = (layer: number, idx: number) => {
+				const idxs = changed.get(layer) ?? new Set<number>();
+				idxs.add(idx);
+				changed.set(layer, idxs);
+			};
+
+			// Dangling edges are removed, and overfull nodes are pruned
+			for (const issue of report.issues) {
+				if (issue.type === "dangling_edge") {
+					delete graphs[issue.layer][issue.from][issue.to];
+					touch(issue.layer, issue.from);
+				}
+			}
+			for (const issue of report.issues) {
+				if (issue.type === "degree_exceeded") {
+					const conn = Object.entries(graphs[issue.layer][issue.idx]).map(
+						([k, v]) => [v, Number.parseInt(k)] as Node,
+					);
+					const pruned = await this.choose_neighbors(
+						await this.read_vector(issue.idx),
+						conn,
+						issue.layer,
+						issue.idx,
+					);
+					graphs[issue.layer][issue.idx] = Object.fromEntries(
+						pruned.map(([dist, id]) => [id, dist]),
+					);
+					touch(issue.layer, issue.idx);
+				}
+			}
+			await this.save_nodes(graphs, changed);
+
+			// Missing and unreachable nodes are linked again, top layer first
+			// (reachability is checked again, as removing edges may have changed it)
+			const { report: pruned } =
+				changed.size !== 0 || epIssue ? await this.scan() : { report };
+			const relinks = pruned.issues
+				.filter((i) => i.type === "missing_node" || i.type === "unreachable")
+				.sort((a, b) => b.layer - a.layer);
+			for (const { type, layer, idx } of relinks) {
+				await this.relink(idx, layer, type === "unreachable");
+			}
 
-				// Update entry point if we found something closer
-				if (W.length > 0 && ep[0][0] > W[0][0]) {
-					ep = W;
+			// One-directional edges are made bidirectional, where the degree allows it
+			const { report: relinked, graphs: current } =
+				relinks.length !== 0 ? await this.scan() : { report: pruned, graphs };
+			changed.clear();
+			for (const issue of relinked.issues) {
+				if (issue.type === "one_directional_edge") {
+					const { layer, from, to } = issue;
+					const max = layer === 0 ? this.m_max0 : this.m;
+					const target = current[layer][to];
+					if (Object.keys(target).length < max) {
+						target[from] = current[layer][from][to];
+						touch(layer, to);
+					}
 				}
 			}
+			await this.save_nodes(current, changed);
 
-			// PHASE 2: Insert the point into each layer from min(L, l) down to 0
-			for (let l_c = Math.min(L, l); l_c >= 0; l_c--) {
-				// Search for neighbors in current layer with larger candidate list
-				const W = await this.search_layer(q, ep, this.ef_construction, l_c);
-				const newNode: LayerNode = {}; // Connections for the new point
+			return report;
+		});
+	}
 
-				// Update entry point for next layer
-				ep = W.map((e) => [e[0], e[1]] as Node);
+	/**
+	 * Reads the whole graph and checks it, see `verify`.
+	 *
+	 * @returns The report, and the nodes of each layer
+	 */
+	private async scan(): Promise<{ report: IntegrityReport; graphs: Graph[] }> {
+		const issues: IntegrityIssue[] = [];
+		const datasize = await this.db.get_datasize();
+		const L = await this.db.get_num_layers();
+		const idxs = Array.from({ length: datasize }, (_, i) => i);
 
-				// Select the best neighbors using Algorithm 4 (neighbor selection heuristic)
-				const neighbors = this.select_neighbors(q, W, l_c);
-				const indices = neighbors.map(([, idx]) => idx);
-				const nodes = await this.db.get_neighbors(l_c, indices);
+		// Read the nodes of every layer
+		const graphs: Graph[] = [];
+		for (let l_c = 0; l_c < L; l_c++) {
+			const exists = await this.db.has_neighbors(l_c, idxs);
+			const present = idxs.filter((_, i) => exists[i]);
+			graphs.push(
+				present.length !== 0 ? await this.db.get_neighbors(l_c, present) : {},
+			);
+		}
 
-				// Determine maximum connections allowed for this layer
-				const M = l_c === 0 ? this.m_max0 : this.m;
+		// Entry point
+		const ep = await this.db.get_ep();
+		if (ep === null) {
+			if (datasize !== 0) issues.push({ type: "missing_entry_point" });
+		} else if (L === 0 || !(ep in graphs[L - 1])) {
+			issues.push({ type: "invalid_entry_point", ep, layer: L - 1 });
+		}
 
-				// PHASE 3: Create bidirectional connections between new point and selected neighbors
-				for (const e of neighbors) {
-					newNode[e[1]] = e[0]; // Connect new point to neighbor
-					nodes[e[1]][idx] = e[0]; // Connect neighbor back to new point
+		// Points must have a node in every layer below their top layer, and in layer 0
+		for (const idx of idxs) {
+			let top = Math.max(L - 1, 0);
+			while (top > 0 && !(idx in graphs[top])) top--;
+			for (let l_c = top; l_c >= 0; l_c--) {
+				if (!graphs[l_c] || !(idx in graphs[l_c])) {
+					issues.push({ type: "missing_node", layer: l_c, idx });
 				}
+			}
+		}
 
-				// PHASE 4: Prune connections if any neighbor now has too many connections
-				for (const e of neighbors) {
-					// Get all connections for this neighbor
-					const eConn = Object.entries(nodes[e[1]]).map(
-						([k, v]) => [v, Number.parseInt(k)] as Node,
-					);
+		graphs.forEach((graph, l_c) => {
+			const max = l_c === 0 ? this.m_max0 : this.m;
 
-					// If neighbor has too many connections, prune to the best ones
-					if (eConn.length > M) {
-						// Use neighbor selection heuristic to keep only the best connections
-						const eNewConn = this.select_neighbors(
-							await this.db.get_point(e[1]),
-							eConn,
-							l_c,
-						);
-
-						// Convert selected connections back to dictionary format
-						const dict: Record<number, number> = {};
-						for (const eNew of eNewConn) {
-							dict[eNew[1]] = eNew[0];
-						}
+			// Edges and degrees
+			for (const [key, node] of Object.entries(graph)) {
+				const from = Number.parseInt(key);
+				const edges = Object.keys(node).map((k) => Number.parseInt(k));
+				if (edges.length > max) {
+					issues.push({
+						type: "degree_exceeded",
+						layer: l_c,
+						idx: from,
+						degree: edges.length,
+						max,
+					});
+				}
+				for (const to of edges) {
+					if (!(to in graph)) {
+						issues.push({ type: "dangling_edge", layer: l_c, from, to });
+					} else if (!(from in graph[to])) {
+						issues.push({ type: "one_directional_edge", layer: l_c, from, to });
+					}
+				}
+			}
 
-						nodes[e[1]] = dict; // Update neighbor's connection list
+			// Reachability from the entry point, following edges like a search does
+			if (ep === null || !(ep in graph)) return;
+			const reached = new Set<number>([ep]);
+			const queue = [ep];
+			while (queue.length !== 0) {
+				const idx = queue.pop() as number;
+				for (const key of Object.keys(graph[idx] ?? {})) {
+					const to = Number.parseInt(key);
+					if (to in graph && !reached.has(to)) {
+						reached.add(to);
+						queue.push(to);
 					}
 				}
+			}
+			for (const key of Object.keys(graph)) {
+				const idx = Number.parseInt(key);
+				if (!reached.has(idx)) {
+					issues.push({ type: "unreachable", layer: l_c, idx });
+				}
+			}
+		});
 
-				// Save the new connections to the database
-				await this.db.upsert_neighbor(l_c, idx, newNode);
-				await this.db.upsert_neighbors(l_c, nodes);
+		const report: IntegrityReport = {
+			valid: issues.every((i) => i.type === "one_directional_edge"),
+			issues,
+			points: datasize,
+			nodes: graphs.map((graph) => Object.keys(graph).length),
+		};
+		return { report, graphs };
+	}
+
+	/**
+	 * Links an existing point into a layer again, like an insert would.
+	 * Existing connections of its node are kept, as long as the degree allows it.
+	 *
+	 * Pruning may drop all new connections towards the point again, when its neighbors
+	 * already have closer ones; this is how nodes become unreachable in the first place.
+	 * With `reachable`, the closest neighbor then replaces its furthest connection with
+	 * one towards the point.
+	 *
+	 * @param idx Index of the point
+	 * @param l_c The layer to link the point in
+	 * @param reachable Whether to make sure that the point has a connection towards it
+	 */
+	private async relink(
+		idx: number,
+		l_c: number,
+		reachable = false,
+	): Promise<void> {
+		const q = await this.read_vector(idx);
+		const ep = await this.route(q, {}, l_c);
+		if (ep === null) return;
+
+		const W = (
+			await this.search_layer(q, ep, this.ef_construction + 1, l_c)
+		).filter(([, id]) => id !== idx);
+		const neighbors = await this.choose_neighbors(q, W, l_c, idx);
+		const indices = neighbors.map(([, id]) => id);
+
+		const [exists] = await this.db.has_neighbors(l_c, [idx]);
+		const oldNode = exists ? await this.db.get_neighbor(l_c, idx) : {};
+		const nodes = await this.db.get_neighbors(l_c, indices);
+		const deleted =
+			l_c === 0
+				? await this.deleted_among(exists ? [...indices, idx] : indices)
+				: [];
+
+		let newNode: LayerNode = {
+			...oldNode,
+			...(await this.link_neighbors(idx, neighbors, nodes, l_c)),
+		};
+		if (reachable && neighbors.length !== 0) {
+			const [dist, closest] = neighbors[0];
+			if (!indices.some((i) => idx in nodes[i])) {
+				const conn = await this.measure(
+					await this.read_vector(closest),
+					Object.entries(nodes[closest]).map(
+						([k, v]) => [v, Number.parseInt(k)] as Node,
+					),
+				);
+				const [, furthest] = conn.reduce((a, b) => (b[0] > a[0] ? b : a));
+				delete nodes[closest][furthest];
+				nodes[closest][idx] = dist;
 			}
 		}
-
-		// PHASE 5: Update global state if new point created new layers
-		const LL = await this.db.get_num_layers();
-		if (LL < l + 1) {
-			// New point is now the entry point (highest layer)
-			await this.db.set_ep(idx);
+		const max = l_c === 0 ? this.m_max0 : this.m;
+		if (Object.keys(newNode).length > max) {
+			const conn = Object.entries(newNode).map(
+				([k, v]) => [v, Number.parseInt(k)] as Node,
+			);
+			newNode = Object.fromEntries(
+				(await this.choose_neighbors(q, conn, l_c, idx)).map(([dist, id]) => [
+					id,
+					dist,
+				]),
+			);
 		}
 
-		// Create empty neighbor lists for new layers
-		// TODO: This could be optimized to create all new layers in parallel
-		for (let i = LL; i < l + 1; i++) {
-			await this.db.new_neighbor(idx);
+		await this.check_lock();
+		await this.db.upsert_neighbor(l_c, idx, newNode, !deleted.includes(idx));
+		await this.db.upsert_neighbors(
+			l_c,
+			nodes,
+			deleted.filter((d) => d !== idx),
+		);
+	}
+
+	/**
+	 * Writes the given nodes of each layer, keeping their visibility.
+	 * Fails without writing if the write lock was lost.
+	 *
+	 * @param graphs Nodes of each layer
+	 * @param changed Indices of the nodes to write, per layer
+	 */
+	private async save_nodes(
+		graphs: Graph[],
+		changed: Map<number, Set<number>>,
+	): Promise<void> {
+		await this.check_lock();
+		for (const [l_c, idxs] of changed) {
+			const indices = [...idxs];
+			const nodes: Graph = {};
+			for (const idx of indices) {
+				nodes[idx] = graphs[l_c][idx];
+			}
+			const deleted = l_c === 0 ? await this.deleted_among(indices) : [];
+			await this.db.upsert_neighbors(l_c, nodes, deleted);
 		}
 	}
 
@@ -312,6 +1568,11 @@ export class HNSW<M = unknown> {
 	 * @param ep Array of entry points to start the search from (typically 1 point, but can be multiple)
 	 * @param ef Maximum number of neighbors to return (controls search scope vs speed)
 	 * @param l_c The layer to search in (0 = base layer with all points, higher = sparser layers)
+	 * @param options Optional search behavior:
+	 * - `accept`: Decides which points may be returned; rejected points (e.g. deleted ones) are only routed through
+	 * - `radius`: Keeps all points within this distance, growing the results beyond `ef` (used by range search)
+	 * - `limit`: Caps the number of points kept within `radius`
+	 * - `signal` / `deadline`: Stop the search early, returning the results found so far
 	 *
 	 * @returns Array of [distance, point_id] pairs representing the closest neighbors found
 	 *
@@ -325,7 +1586,21 @@ export class HNSW<M = unknown> {
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 2 (page 8)
 	 */
-	async search_layer(q: Point, ep: Node[], ef: number, l_c: number) {
+	async search_layer(
+		q: Point,
+		ep: Node[],
+		ef: number,
+		l_c: number,
+		options: SearchLayerOptions = {},
+	) {
+		const {
+			accept,
+			radius,
+			limit = Number.POSITIVE_INFINITY,
+			signal,
+			deadline,
+		} = options;
+
 		// Initialize visited set with entry points to avoid revisiting them
 		const V = new Set<number>(ep.map(([, id]) => id));
 
@@ -334,22 +1609,43 @@ export class HNSW<M = unknown> {
 
 		// Dynamic list (max-heap): current best neighbors found
 		// We negate distances to turn min-heap into max-heap (furthest neighbor at top)
-		const W = new NodeHeap(ep.map(([mdist, p]) => [-mdist, p]));
+		// Only accepted points make it into the results, the rest are used for routing only
+		const epAccepted = accept ? await accept(ep.map(([, id]) => id)) : [];
+		const W = new NodeHeap(
+			ep
+				.filter((_, i) => !accept || epAccepted[i])
+				.map(([mdist, p]) => [-mdist, p]),
+		);
 
 		// Main search loop: expand outward from entry points
 		while (!C.isEmpty()) {
+			// Stop early if the caller gave up, keeping the results found so far
+			if (
+				signal?.aborted ||
+				(deadline !== undefined && Date.now() >= deadline)
+			) {
+				break;
+			}
+
 			const c = C.pop(); // Get closest unexplored candidate
 			if (!c) break; // Safety check for empty heap
 
 			const c_v: number = c[0]; // Distance from query to candidate
 			const topW = W.top(1)[0];
-			if (!topW) break; // Safety check for empty heap
+			if (!topW && !accept) break; // Safety check for empty heap
 
-			const f_dist = -topW[0]; // Distance to furthest point in results (undo negation)
+			// Distance to furthest point in results (undo negation)
+			const f_dist = topW ? -topW[0] : Number.POSITIVE_INFINITY;
 
 			// Stopping condition: if closest candidate is further than furthest result,
 			// we won't find any better neighbors, so stop searching
-			if (c_v > f_dist) {
+			// (when filtering, keep going until we have found enough accepted results)
+			// (with a radius, keep going while candidates are within it)
+			if (
+				c_v > f_dist &&
+				(!accept || W.length >= ef) &&
+				(radius === undefined || c_v > radius || W.length >= limit)
+			) {
 				break;
 			}
 
@@ -360,23 +1656,43 @@ export class HNSW<M = unknown> {
 				.filter((k) => !V.has(k));
 
 			// Calculate distances from query to all neighbors
-			const points = await this.db.get_points(neighbors);
-			const dists = points.map((p) => cosine_distance(p, q));
+			const dists = await this.distances_to(q, neighbors);
+
+			// Add neighbor to results if:
+			// 1. It's closer than our furthest current result, OR
+			// 2. We don't have enough results yet (W.length < ef), OR
+			// 3. It's within the radius, and the limit is not reached yet
+			const admits = (dist: number) =>
+				dist < f_dist ||
+				W.length < ef ||
+				(radius !== undefined && dist <= radius && W.length < limit);
+
+			// Only neighbors that are admitted now are filtered, as filtering may read
+			// metadata. W never shrinks below, so the others are never admitted.
+			const admitted = neighbors.filter((_, i) => admits(dists[i]));
+			const verdicts =
+				accept && admitted.length !== 0 ? await accept(admitted) : [];
+			const accepted = new Set(admitted.filter((_, i) => verdicts[i]));
 
 			// Process each neighbor
 			dists.forEach((dist, i) => {
 				const e = neighbors[i];
 				V.add(e); // Mark neighbor as visited
 
-				// Add neighbor to results if:
-				// 1. It's closer than our furthest current result, OR
-				// 2. We don't have enough results yet (W.length < ef)
-				if (dist < f_dist || W.length < ef) {
+				if (admits(dist)) {
 					C.push([dist, e]); // Add to candidates for future exploration
+					if (accept && !accepted.has(e)) return; // Route through, but don't return it
+
 					W.push([-dist, e]); // Add to results (with negated distance)
 
-					// If we have too many results, remove the furthest one
-					if (W.length > ef) {
+					// If we have too many results, remove the furthest ones
+					// (points within the radius are only removed beyond the limit)
+					while (
+						W.length > ef &&
+						(radius === undefined ||
+							-W.top(1)[0][0] > radius ||
+							W.length > limit)
+					) {
 						W.pop();
 					}
 				}
@@ -384,7 +1700,8 @@ export class HNSW<M = unknown> {
 		}
 
 		// Handle special case for ef=1 (single neighbor search)
-		if (ef === 1) {
+		// (a range search keeps every point within its radius, whatever ef is)
+		if (ef === 1 && radius === undefined) {
 			if (W.length !== 0) {
 				// For single neighbor search, extract the closest one
 				// TODO: This could be optimized - we're creating a new heap just to get the minimum
@@ -413,9 +1730,12 @@ export class HNSW<M = unknown> {
 	 * 2. Optionally keeping some pruned connections to maintain graph connectivity
 	 *
 	 * This is a simplified version of the neighbor selection heuristic. The paper also
-	 * describes a more complex "extended heuristic" (Algorithm 4*) that considers
-	 * the distance between candidates to avoid clustering, but this implementation
-	 * uses the simpler approach for performance.
+	 * describes a more complex heuristic that considers the distance between candidates
+	 * to avoid clustering, see `select_neighbors_heuristic`. This simpler approach is
+	 * used by default for performance, as it needs no additional database reads.
+	 *
+	 * Candidates without a distance (NaN), such as the neighbors of nodes stored in
+	 * the compact format, are measured first, which reads their points.
 	 *
 	 * @param q The query point (either a new point being inserted or existing point being pruned)
 	 * @param C Candidate neighbors with their distances: [distance, point_id]
@@ -428,22 +1748,22 @@ export class HNSW<M = unknown> {
 	 * ```typescript
 	 * // Select best neighbors for a point in layer 1
 	 * const candidates = [[0.1, 5], [0.2, 10], [0.15, 8], [0.3, 15]];
-	 * const selected = hnsw.select_neighbors(queryPoint, candidates, 1, true);
+	 * const selected = await hnsw.select_neighbors(queryPoint, candidates, 1, true);
 	 * // Returns: [[0.1, 5], [0.15, 8]] (assuming M=2)
 	 * ```
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 4 (page 9)
 	 */
-	select_neighbors(
+	async select_neighbors(
 		q: Point,
 		C: Node[],
 		l_c: number,
 		keepPrunedConnections = true,
-	) {
+	): Promise<Node[]> {
 		// Priority queue for selected neighbors (min-heap by distance)
 		const R = new NodeHeap();
 		// Working copy of candidates (min-heap by distance)
-		const W = new NodeHeap(C);
+		const W = new NodeHeap(await this.measure(q, C));
 		// Maximum connections allowed for this layer
 		const M = l_c > 0 ? this.m : this.m_max0;
 
@@ -486,6 +1806,169 @@ export class HNSW<M = unknown> {
 		return R.heapArray;
 	}
 
+	/**
+	 * Selects the best neighbors from a candidate set using the extended heuristic.
+	 *
+	 * This implements the heuristic of Algorithm 4 from the HNSW paper. Unlike the
+	 * simple selection, it also looks at the distances between the candidates:
+	 * a candidate is only kept if it is closer to the query point than to every
+	 * neighbor selected so far. This spreads the connections in different directions,
+	 * which keeps clustered data well connected and improves recall at low M.
+	 *
+	 * The algorithm works by:
+	 * 1. Optionally extending the candidates with their own neighbors in the layer
+	 * 2. Taking candidates from closest to furthest, keeping those that are not
+	 *    "covered" by an already selected neighbor
+	 * 3. Optionally filling the remaining slots with discarded candidates
+	 *
+	 * Since it compares candidates with each other, their points are fetched from the
+	 * database, which makes it slower than `select_neighbors`.
+	 *
+	 * @param q The query point (either a new point being inserted or existing point being pruned)
+	 * @param C Candidate neighbors with their distances: [distance, point_id]
+	 * @param l_c Current layer (affects maximum number of connections allowed)
+	 * @param extendCandidates Whether to add the neighbors of the candidates as candidates (useful for extremely clustered data)
+	 * @param keepPrunedConnections Whether to fill remaining slots with discarded candidates
+	 * @param idx Index of the query point if it is stored, so that it is not extended to itself
+	 *
+	 * @returns Array of selected neighbors, up to M (or M_max0 for layer 0) neighbors
+	 *
+	 * @example
+	 * ```typescript
+	 * // Point 8 is closer to point 5 than to the query, so it is skipped
+	 * const candidates = [[0.1, 5], [0.2, 10], [0.15, 8], [0.3, 15]];
+	 * const selected = await hnsw.select_neighbors_heuristic(queryPoint, candidates, 1, false, false);
+	 * // Returns: [[0.1, 5], [0.2, 10]] (assuming M=2)
+	 * ```
+	 *
+	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 4 (page 9)
+	 */
+	async select_neighbors_heuristic(
+		q: Point,
+		C: Node[],
+		l_c: number,
+		extendCandidates = false,
+		keepPrunedConnections = true,
+		idx?: number,
+	): Promise<Node[]> {
+		// Selected neighbors, in order of selection (closest first)
+		const R: Node[] = [];
+		// Working copy of candidates (min-heap by distance), measuring those without one
+		const W = new NodeHeap(await this.measure(q, C));
+		// Maximum connections allowed for this layer
+		const M = l_c > 0 ? this.m : this.m_max0;
+
+		// Queue for discarded candidates (for potential reuse if keepPrunedConnections=true)
+		const W_d = new NodeHeap();
+
+		// PHASE 1: Optionally extend the candidates with their neighbors
+		const ids = C.map(([, id]) => id);
+		if (extendCandidates && ids.length !== 0) {
+			const candidates = new Set(ids);
+			// a point that is being inserted may not have its neighbors stored yet
+			const exists = await this.db.has_neighbors(l_c, ids);
+			const graph = await this.db.get_neighbors(
+				l_c,
+				ids.filter((_, i) => exists[i]),
+			);
+			// the query point itself shows up when pruning an existing node
+			if (idx !== undefined) candidates.add(idx);
+			const extra = [
+				...new Set(
+					Object.values(graph).flatMap((node) =>
+						Object.keys(node).map((k) => Number.parseInt(k)),
+					),
+				),
+			].filter((e) => !candidates.has(e));
+
+			const extraPoints = await this.read_vectors(extra);
+			extra.forEach((e, i) => {
+				W.push([this.distance(q, extraPoints[i]), e]);
+			});
+		}
+
+		// Points of all candidates, to compare them with the selected neighbors
+		const candidateIds = W.heapArray.map(([, id]) => id);
+		const candidatePoints = await this.read_vectors(candidateIds);
+		const points = new Map(
+			candidateIds.map((id, i) => [id, candidatePoints[i]]),
+		);
+
+		// PHASE 2: Keep candidates that are closer to q than to any selected neighbor
+		while (W.length > 0 && R.length < M) {
+			const e = W.pop();
+			if (!e) break; // Safety check for empty heap
+
+			const p_e = points.get(e[1]) as Point;
+			const isCovered = R.some(
+				([, r]) => this.distance(p_e, points.get(r) as Point) < e[0],
+			);
+
+			if (isCovered) {
+				W_d.push([e[0], e[1]]);
+			} else {
+				R.push([e[0], e[1]]);
+			}
+		}
+
+		// PHASE 3: Fill remaining slots with discarded connections (if enabled)
+		if (keepPrunedConnections) {
+			while (W_d.length > 0 && R.length < M) {
+				const discarded = W_d.pop();
+				if (discarded) {
+					R.push(discarded);
+				}
+			}
+		}
+
+		return R;
+	}
+
+	/**
+	 * Selects neighbors with the strategy configured for this index.
+	 * Uses the simple selection by default, or the extended heuristic if enabled.
+	 * Both measure candidates without a stored distance; `idx` is the index of `q`.
+	 */
+	private async choose_neighbors(
+		q: Point,
+		C: Node[],
+		l_c: number,
+		idx: number,
+	): Promise<Node[]> {
+		if (this.neighbor_selection === "heuristic") {
+			return this.select_neighbors_heuristic(
+				q,
+				C,
+				l_c,
+				this.extend_candidates,
+				this.keep_pruned_connections,
+				idx,
+			);
+		}
+		return this.select_neighbors(q, C, l_c, this.keep_pruned_connections);
+	}
+
+	/**
+	 * Measures the distances of candidates that have none (NaN), as nodes with compact
+	 * neighbors may be stored without distances.
+	 *
+	 * @param q The point that the candidates are connected to
+	 * @param C Candidate neighbors with their distances: [distance, point_id]
+	 * @returns The candidates, all with a distance
+	 */
+	private async measure(q: Point, C: Node[]): Promise<Node[]> {
+		const unknown = C.filter(([dist]) => Number.isNaN(dist)).map(
+			([, id]) => id,
+		);
+		if (unknown.length === 0) return C;
+
+		const points = await this.read_vectors(unknown);
+		const distances = new Map(
+			unknown.map((id, i) => [id, this.distance(q, points[i])]),
+		);
+		return C.map(([dist, id]) => [distances.get(id) ?? dist, id]);
+	}
+
 	/**
 	 * Performs k-nearest neighbor search to find the closest points to a query.
 	 *
@@ -506,9 +1989,24 @@ export class HNSW<M = unknown> {
 	 *
 	 * @param q The query vector to search for
 	 * @param K Number of nearest neighbors to return
+	 * @param options Optional search options:
+	 * - `filter`: Only return points whose metadata matches; either a predicate or a
+	 *   declarative condition such as `{ tenant: "acme", year: { $gte: 2020 } }`.
+	 *   Filtering happens during the graph walk, so up to K matching points are returned.
+	 * - `ef`: Size of the candidate list for this query, overriding `ef_search`
+	 *   (higher = better recall, slower)
+	 * - `includeVectors`: Include the stored vector of each result
+	 * - `diversity`: Re-rank with Maximal Marginal Relevance (MMR) using this lambda in [0, 1],
+	 *   to avoid near-duplicate results; 1 ranks by relevance only, 0 by diversity only.
+	 *   The search then collects at least `4 * K` candidates and picks K among them.
+	 * - `signal` / `deadline`: Stop the graph walk early (on abort, or at a `Date.now()` timestamp)
+	 *   and return the best results found so far
 	 *
 	 * @returns Array of KNNResult objects containing id, distance, and metadata for each neighbor,
-	 *          sorted by distance (closest first). Returns empty array if no points in index.
+	 *          sorted by distance (closest first), or in MMR selection order with `diversity`.
+	 *          Returns empty array if no points in index.
+	 *          Deleted points are never returned. Indexes smaller than `flatSearchThreshold`
+	 *          are searched exactly with `flat_search`.
 	 *
 	 * @example
 	 * ```typescript
@@ -529,45 +2027,403 @@ export class HNSW<M = unknown> {
 	 *     console.log(`  Metadata:`, result.metadata);
 	 *   }
 	 * }
+	 *
+	 * // Only search within a single tenant
+	 * const tenantResults = await hnsw.knn_search(query, 5, {
+	 *   filter: { tenant: 'acme', category: { $in: ['research', 'news'] } },
+	 * });
+	 *
+	 * // Interactive query: lower ef, at most 200ms, with vectors
+	 * const fastResults = await hnsw.knn_search(query, 5, {
+	 *   ef: 20,
+	 *   deadline: Date.now() + 200,
+	 *   includeVectors: true,
+	 * });
+	 *
+	 * // RAG context without near-duplicate chunks
+	 * const chunks = await hnsw.knn_search(query, 10, { diversity: 0.5 });
 	 * ```
 	 *
 	 * @see https://arxiv.org/pdf/1603.09320.pdf Algorithm 5 (page 10)
 	 */
-	async knn_search(q: Point, K: number): Promise<KNNResult<M>[]> {
-		// Get the entry point (starting point for search)
-		const ep_index = await this.db.get_ep();
+	async knn_search(
+		q: Point,
+		K: number,
+		options: KNNSearchOptions<M> = {},
+	): Promise<KNNResult<M>[]> {
+		await this.check_config(q, false);
+
+		// Small indexes do not benefit from the graph, search them exactly
+		if (
+			this.flat_search_threshold > 0 &&
+			(await this.db.get_datasize()) < this.flat_search_threshold
+		) {
+			return this.flat_search(q, K, options);
+		}
+
+		// PHASE 1: Routing through upper layers to find an entry point for layer 0
+		const ep = await this.route(q, options);
 
 		// Handle edge case: empty index
-		if (ep_index === null) return [];
+		if (ep === null) return [];
+
+		// PHASE 2: Comprehensive search in base layer (layer 0)
+		// Use the configured ef parameter for quality search, only returning
+		// points that are not deleted and match the filter
+		const metadatas = new Map<number, M | null>();
+		const ef = Math.max(
+			options.ef ?? this.ef,
+			this.candidate_count(K, options),
+		);
+		const W = await this.search_layer(q, ep, ef, 0, {
+			accept: this.acceptor(options.filter, metadatas),
+			signal: options.signal,
+			deadline: options.deadline,
+		});
+
+		// Sort results by distance and take top K, or the K most relevant and diverse
+		const candidates = await this.rerank_nodes(q, W.sort(compareNode));
+		const results =
+			options.diversity === undefined
+				? candidates.slice(0, K)
+				: await this.diversify(candidates, K, options.diversity);
+		return this.to_results(results, metadatas, options.includeVectors);
+	}
+
+	/**
+	 * Finds the exact k nearest neighbors by comparing the query with every point.
+	 *
+	 * All points are read in chunks, so the cost grows linearly with the size of the index;
+	 * for small indexes this is as fast as a graph search, and the results are exact. This
+	 * also serves as ground truth to measure the recall of `knn_search`.
+	 *
+	 * Like `knn_search`, deleted points are never returned, and points that were never
+	 * fully inserted (without a node in the graph) are left out.
+	 *
+	 * @param q The query vector to search for
+	 * @param K Number of nearest neighbors to return
+	 * @param options Optional search options:
+	 * - `filter`, `includeVectors`, `diversity`, `signal`, `deadline`: Same as in `knn_search`,
+	 *   a stopped search returns the best results among the points read so far
+	 * - `chunkSize`: Number of points read at once (default: 1000)
+	 *
+	 * @returns Array of KNNResult objects, sorted by distance (closest first)
+	 *
+	 * @example
+	 * ```typescript
+	 * // Measure the recall of the approximate search
+	 * const exact = await hnsw.flat_search(query, 10);
+	 * const approx = await hnsw.knn_search(query, 10);
+	 * const recall = approx.filter((r) => exact.some((e) => e.id === r.id)).length / 10;
+	 * ```
+	 */
+	async flat_search(
+		q: Point,
+		K: number,
+		options: FlatSearchOptions<M> = {},
+	): Promise<KNNResult<M>[]> {
+		await this.check_config(q, false);
+
+		const { signal, deadline, chunkSize = 1000 } = options;
+		const datasize = await this.db.get_datasize();
+		const metadatas = new Map<number, M | null>();
+		const accept = this.acceptor(options.filter, metadatas);
+		const count = this.candidate_count(K, options);
+
+		let best: Node[] = [];
+		for (let start = 0; start < datasize; start += chunkSize) {
+			if (
+				signal?.aborted ||
+				(deadline !== undefined && Date.now() >= deadline)
+			) {
+				break;
+			}
+
+			const chunk = Array.from(
+				{ length: Math.min(chunkSize, datasize - start) },
+				(_, i) => start + i,
+			);
+			const linked = await this.db.has_neighbors(0, chunk);
+			const candidates = chunk.filter((_, i) => linked[i]);
+			if (candidates.length === 0) continue;
+
+			const accepted = await accept(candidates);
+			const idxs = candidates.filter((_, i) => accepted[i]);
+			if (idxs.length === 0) continue;
+
+			const points = await this.exact_vectors(idxs);
+			const nodes = points.map(
+				(p, i) => [this.distance(p, q), idxs[i]] as Node,
+			);
+			best = best.concat(nodes).sort(compareNode).slice(0, count);
+		}
+
+		if (options.diversity !== undefined) {
+			best = await this.diversify(best, K, options.diversity);
+		}
+		return this.to_results(best, metadatas, options.includeVectors);
+	}
+
+	/**
+	 * Performs k-nearest neighbor searches for many queries at once.
+	 *
+	 * All queries run concurrently on a {@link LoaderMemory} overlay, which coalesces
+	 * the reads of all queries into batched reads and caches them for the duration of
+	 * the call. Overlapping reads of nodes and points are therefore fetched only once,
+	 * and queries that take a step of the graph walk at the same time share a single
+	 * round trip, which is much faster than calling `knn_search` in a loop on remote
+	 * storage.
+	 *
+	 * Results are the same as those of `knn_search` for each query.
+	 *
+	 * @param queries The query vectors to search for
+	 * @param K Number of nearest neighbors to return for each query
+	 * @param options Optional search options, the same as in `knn_search`, applied to all queries
+	 * @returns The results of each query, in the same order as the queries
+	 *
+	 * @example
+	 * ```typescript
+	 * const [resultsA, resultsB] = await hnsw.knn_search_many([queryA, queryB], 10);
+	 * ```
+	 */
+	async knn_search_many(
+		queries: Point[],
+		K: number,
+		options: KNNSearchOptions<M> = {},
+	): Promise<KNNResult<M>[][]> {
+		const shared = this.with_db(new LoaderMemory<M>(this.db));
+		return Promise.all(queries.map((q) => shared.knn_search(q, K, options)));
+	}
+
+	/**
+	 * Finds all points within a distance threshold of a query.
+	 *
+	 * Unlike `knn_search`, the number of results is not fixed in advance: the search in the
+	 * base layer keeps every point within `maxDistance` and keeps expanding as long as there
+	 * are candidates within it, so the results grow with the number of matches. Around the
+	 * boundary, the search still explores `ef` points like a regular search does, so that
+	 * matches behind slightly further points are not missed.
+	 *
+	 * Like every HNSW search this is approximate, a few points within the threshold may be
+	 * missed. Dense ranges read many nodes, use `limit` to bound the work.
+	 *
+	 * @param q The query vector to search for
+	 * @param maxDistance Maximum distance (inclusive) of returned points, in the index metric
+	 * @param options Optional search options:
+	 * - `limit`: Maximum number of results, the closest ones are returned
+	 * - `filter`, `ef`, `includeVectors`, `signal`, `deadline`: Same as in `knn_search`
+	 *
+	 * @returns Array of KNNResult objects within the distance, sorted by distance (closest first).
+	 *          Deleted points are never returned.
+	 *
+	 * @example
+	 * ```typescript
+	 * // Find near-duplicates of a vector
+	 * const duplicates = await hnsw.range_search(vector, 0.05);
+	 *
+	 * // At most 100 matches of a single tenant
+	 * const matches = await hnsw.range_search(vector, 0.2, {
+	 *   limit: 100,
+	 *   filter: { tenant: 'acme' },
+	 * });
+	 * ```
+	 */
+	async range_search(
+		q: Point,
+		maxDistance: number,
+		options: RangeSearchOptions<M> = {},
+	): Promise<KNNResult<M>[]> {
+		await this.check_config(q, false);
+
+		const ep = await this.route(q, options);
+		if (ep === null) return [];
+
+		const metadatas = new Map<number, M | null>();
+		const W = await this.search_layer(q, ep, options.ef ?? this.ef, 0, {
+			accept: this.acceptor(options.filter, metadatas),
+			radius: maxDistance,
+			limit: options.limit,
+			signal: options.signal,
+			deadline: options.deadline,
+		});
+
+		// Drop the points outside the radius that were only kept for exploration,
+		// with exact distances if the index keeps full-precision vectors
+		const within = (await this.rerank_nodes(q, W))
+			.filter(([dist]) => dist <= maxDistance)
+			.sort(compareNode);
+		return this.to_results(
+			within.slice(0, options.limit),
+			metadatas,
+			options.includeVectors,
+		);
+	}
+
+	/**
+	 * Routes a query from the top layer down to the layer above the target layer (layer 1 by default).
+	 *
+	 * Uses greedy search (ef=1) in each upper layer, as we only need a good
+	 * entry point for the search in the base layer.
+	 *
+	 * @param q The query vector
+	 * @param stop Optional signal and deadline that stop the routing early
+	 * @param layer The layer to route to (default: 0)
+	 * @returns Entry points for the layer, or null if the index is empty
+	 */
+	private async route(
+		q: Point,
+		stop: Pick<SearchLayerOptions, "signal" | "deadline"> = {},
+		layer = 0,
+	): Promise<Node[] | null> {
+		// Get the entry point (starting point for search)
+		const ep_index = await this.db.get_ep();
+		if (ep_index === null) return null;
 
 		// Get the current top layer and calculate initial distance
 		const L = (await this.db.get_num_layers()) - 1;
-		const dist = cosine_distance(q, await this.db.get_point(ep_index));
+		const dist = (await this.distances_to(q, [ep_index]))[0];
 
-		// PHASE 1: Routing through upper layers (L down to 1)
-		// Use ef=1 for fast navigation - we only need to find a good entry point for layer 0
 		let ep: Node[] = [[dist, ep_index]];
-		for (let l_c = L; l_c > 0; l_c--) {
-			ep = await this.search_layer(q, ep, 1, l_c);
+		for (let l_c = L; l_c > layer; l_c--) {
+			ep = await this.search_layer(q, ep, 1, l_c, {
+				signal: stop.signal,
+				deadline: stop.deadline,
+			});
 		}
+		return ep;
+	}
 
-		// PHASE 2: Comprehensive search in base layer (layer 0)
-		// Use the configured ef parameter for quality search
-		ep = await this.search_layer(q, ep, this.ef, 0);
+	/**
+	 * Creates the `accept` callback of `search_layer` for a query.
+	 *
+	 * Deleted points are always rejected. If a metadata filter is given, the metadata
+	 * of the remaining points is fetched and matched; fetched metadata is stored in
+	 * `metadatas` so that it does not have to be read again for the results.
+	 *
+	 * @param filter Optional metadata filter of the query
+	 * @param metadatas Cache of fetched metadata, keyed by point index
+	 */
+	private acceptor(
+		filter: MetadataFilter<M> | undefined,
+		metadatas: Map<number, M | null>,
+	): (idxs: number[]) => Promise<boolean[]> {
+		return async (idxs) => {
+			const visible = await this.db.get_visibilities(idxs);
+			if (!filter) return visible;
+
+			const candidates = idxs.filter((_, i) => visible[i]);
+			const datas = await this.db.get_metadatas(candidates);
+			candidates.forEach((idx, i) => metadatas.set(idx, datas[i]));
+
+			return idxs.map(
+				(idx, i) =>
+					visible[i] && matches_filter(filter, metadatas.get(idx) ?? null, idx),
+			);
+		};
+	}
+
+	/**
+	 * Number of candidates a search collects to return K results: K, or `4 * K` for
+	 * diversified searches so that MMR has alternatives to pick from.
+	 *
+	 * @throws Error if the diversity is not between 0 and 1
+	 */
+	private candidate_count(
+		K: number,
+		options: Pick<KNNSearchOptions<M>, "diversity">,
+	): number {
+		const { diversity } = options;
+		if (diversity === undefined) return K;
+		if (!(diversity >= 0 && diversity <= 1)) {
+			throw new Error(`Diversity must be between 0 and 1, got ${diversity}`);
+		}
+		return 4 * K;
+	}
+
+	/**
+	 * Selects K results with Maximal Marginal Relevance (Carbonell & Goldstein, 1998).
+	 *
+	 * Starting from the closest candidate, each next result is the candidate minimizing
+	 * `lambda * d(q, c) - (1 - lambda) * min_s d(c, s)` over the results `s` selected so
+	 * far, i.e. one that is close to the query and far from every selected result.
+	 * Distances between candidates use the index metric.
+	 *
+	 * @param candidates Candidates sorted by distance to the query
+	 * @param K Number of results to select
+	 * @param lambda Trade-off between relevance (1) and diversity (0)
+	 * @returns The selected candidates, in selection order
+	 */
+	private async diversify(
+		candidates: Node[],
+		K: number,
+		lambda: number,
+	): Promise<Node[]> {
+		if (lambda === 1 || candidates.length <= 1) return candidates.slice(0, K);
+
+		const points = await this.exact_vectors(candidates.map(([, id]) => id));
+		// distance of each candidate to its closest selected result
+		const nearest = candidates.map(() => Number.POSITIVE_INFINITY);
+		const remaining = new Set(candidates.keys());
+		const selected: Node[] = [];
+
+		let pick = 0;
+		while (selected.length < K) {
+			selected.push(candidates[pick]);
+			remaining.delete(pick);
+			if (remaining.size === 0) break;
 
-		// Sort results by distance and take top K
-		ep.sort(compareNode);
-		const ep_topk = ep.slice(0, K);
+			let best = Number.POSITIVE_INFINITY;
+			for (const i of remaining) {
+				nearest[i] = Math.min(
+					nearest[i],
+					this.distance(points[i], points[pick]),
+				);
+				const score = lambda * candidates[i][0] - (1 - lambda) * nearest[i];
+				if (score < best) {
+					best = score;
+					pick = i;
+				}
+			}
+		}
+		return selected;
+	}
 
+	/**
+	 * Converts search results into KNN results, fetching the missing metadata in batch.
+	 *
+	 * @param nodes Results as [distance, point_id] pairs, in their final order
+	 * @param metadatas Metadata that has already been fetched, keyed by point index
+	 * @param includeVectors Whether to fetch the vectors of the results as well
+	 */
+	private async to_results(
+		nodes: Node[],
+		metadatas: Map<number, M | null> = new Map(),
+		includeVectors = false,
+	): Promise<KNNResult<M>[]> {
 		// Fetch metadata for all results in batch for efficiency
-		const metadatas = await this.db.get_metadatas(ep_topk.map((ep) => ep[1]));
+		const missing = nodes
+			.map(([, id]) => id)
+			.filter((id) => !metadatas.has(id));
+		if (missing.length !== 0) {
+			const datas = await this.db.get_metadatas(missing);
+			missing.forEach((id, i) => metadatas.set(id, datas[i]));
+		}
 
 		// Combine results with metadata and return in the expected format
-		return ep_topk.map((ep, i) => ({
-			id: ep[1],
-			distance: ep[0],
-			metadata: metadatas[i],
+		const results: KNNResult<M>[] = nodes.map(([distance, id]) => ({
+			id,
+			distance,
+			metadata: metadatas.get(id) ?? null,
 		}));
+
+		if (includeVectors && nodes.length !== 0) {
+			const points = await this.exact_vectors(nodes.map(([, id]) => id));
+			results.forEach((result, i) => {
+				result.vector = points[i];
+			});
+		}
+
+		return results;
 	}
 }
 
@@ -631,7 +2487,7 @@ export class HNSW<M = unknown> {
  * 2. **Insert in batches** for better database performance
  * 3. **Start with conservative parameters** and tune based on your data
  * 4. **Monitor recall vs latency** tradeoffs during parameter tuning
- * 5. **Use metadata** to filter results post-search if needed
+ * 5. **Use metadata filters** in `knn_search` rather than filtering results post-search
  *
  * ## Common Issues & Solutions
  *
@@ -2,8 +2,48 @@ import type { ContractState } from "hollowdb";
 import { SetSDK } from "hollowdb";
 import type { JWKInterface, Warp } from "warp-contracts";
 import { ArweaveSigner } from "warp-contracts-plugin-deploy";
+import {
+	CODEC_VERSION,
+	type CodecOptions,
+	type ValueCodec,
+	base64Values,
+	codec_version,
+	rawValues,
+} from "./codec";
+import { CachedDB, type CachedDBOptions } from "./db/cache";
 import { EizenMemory } from "./db/index";
+import type { DBInterface, ValueStore } from "./db/interfaces";
+import { LeaseLock, type LeaseLockOptions } from "./db/lock";
+import {
+	type MigrationOptions,
+	type MigrationReport,
+	migrate_codec,
+} from "./db/migrate";
 import { HNSW } from "./hnsw";
+import {
+	BinaryQuantizer,
+	ProductQuantizer,
+	type ProductQuantizerOptions,
+	ScalarQuantizer,
+	hamming_distance,
+	load_quantizer,
+} from "./quantization";
+import type {
+	DistanceMetric,
+	FlatSearchOptions,
+	HNSWOptions,
+	IntegrityIssue,
+	IntegrityReport,
+	KNNResult,
+	KNNSearchOptions,
+	MetadataFilter,
+	NeighborSelection,
+	Point,
+	Quantizer,
+	RangeSearchOptions,
+	RebuildOptions,
+	WriteLock,
+} from "./types";
 
 /**
  * Compatibility SDK for legacy vector storage contracts.
@@ -91,6 +131,24 @@ export class EizenDbVector<M = unknown> extends HNSW<M> {
 	 * - `m`: Maximum connections per node (default: 5, range: 5-48, higher for better quality)
 	 * - `efConstruction`: Build-time candidate list size (default: 128, higher for better graph quality)
 	 * - `efSearch`: Search-time candidate list size (default: 20, higher for better recall)
+	 * - `metric`: Distance metric (default: `"cosine"`), stored with the index on first insert
+	 * - `neighborSelection`: `"simple"` (default) or `"heuristic"`, better for clustered embeddings
+	 * - `seed`: Seed for level assignment, making index builds reproducible
+	 * - `flatSearchThreshold`: Search exactly (brute-force) while the index has fewer vectors than this
+	 * - `lease`: Hold a write lease stored in the contract during every write, so that several
+	 *   processes can write to the same index (`true`, or `LeaseLock` options such as `ttl`).
+	 *   Writes of a single instance are always serialized.
+	 * - `cache`: Keep recently read vectors, nodes and metadata in memory, so that searches do
+	 *   not read them from the contract again (`true`, or `CachedDB` options such as `maxEntries`).
+	 *   Writes of other processes may then be seen late.
+	 * - `collection`: Name of the collection to use, so that one contract holds many indexes
+	 *   (see `EizenMemory.create_collection`). Uses the default collection if not given.
+	 * - `quantizer`: Store vectors as compact codes, e.g. `ScalarQuantizer.fit(sample)` for 4x
+	 *   smaller vectors, stored with the index on first insert and loaded from it afterwards
+	 * - `rerank`: With a quantizer, also store the full vectors and re-rank results with them
+	 * - `codec`: Format of the stored values, e.g. `{ checksum: true }` to detect corrupted values
+	 *   or `{ version: 0 }` for indexes that releases without codec versioning still read, and
+	 *   `{ neighbors: "compact" }` to store graph nodes without the distances of their neighbors
 	 *
 	 * @template M Type of metadata associated with each vector
 	 *
@@ -105,6 +163,19 @@ export class EizenDbVector<M = unknown> extends HNSW<M> {
 	 *   efConstruction: 200, // Better graph construction
 	 *   efSearch: 50        // Better search recall
 	 * });
+	 *
+	 * // Euclidean distance, e.g. for image embeddings
+	 * const imageDb = new EizenDbVector(contractSDK, { metric: "l2" });
+	 *
+	 * // One index per customer in the same contract
+	 * await EizenMemory.create_collection(contractSDK, "acme");
+	 * const acmeDb = new EizenDbVector(contractSDK, { collection: "acme" });
+	 *
+	 * // 8-bit vectors, re-ranked with the full ones
+	 * const compactDb = new EizenDbVector(contractSDK, {
+	 *   quantizer: ScalarQuantizer.fit(sample),
+	 *   rerank: true,
+	 * });
 	 * ```
 	 */
 	constructor(
@@ -116,13 +187,56 @@ export class EizenDbVector<M = unknown> extends HNSW<M> {
 			efConstruction?: number;
 			/** Size of candidate list during search (default: 20) */
 			efSearch?: number;
+			/** Distance metric used to compare vectors (default: "cosine") */
+			metric?: DistanceMetric;
+			/** Neighbor selection strategy (default: "simple") */
+			neighborSelection?: NeighborSelection;
+			/** Seed for reproducible level assignment (default: unseeded) */
+			seed?: number;
+			/** Search exactly while the index has fewer vectors than this (default: 0, never) */
+			flatSearchThreshold?: number;
+			/** Hold a write lease in the contract, for multiple writers (default: false) */
+			lease?: boolean | LeaseLockOptions;
+			/** Cache reads in memory with a bounded LRU cache (default: false) */
+			cache?: boolean | CachedDBOptions;
+			/** Collection of the contract that holds the index (default: the default collection) */
+			collection?: string;
+			/** Store vectors as codes of this quantizer (default: none, full vectors) */
+			quantizer?: Quantizer;
+			/** Keep full vectors next to the codes to re-rank results (default: false) */
+			rerank?: boolean;
+			/** Format of the stored values (default: latest version, no checksums) */
+			codec?: CodecOptions;
 		},
 	) {
 		const m = options?.m ?? 5;
 		const ef_construction = options?.efConstruction ?? 128;
 		const ef_search = options?.efSearch ?? 20;
 
-		super(new EizenMemory<M>(contractSDK), m, ef_construction, ef_search);
+		const db = new EizenMemory<M>(contractSDK, {
+			collection: options?.collection,
+			codec: options?.codec,
+		});
+		const lease = options?.lease;
+		const cache = options?.cache;
+
+		super(
+			cache ? new CachedDB(db, cache === true ? {} : cache) : db,
+			m,
+			ef_construction,
+			ef_search,
+			{
+				metric: options?.metric,
+				neighborSelection: options?.neighborSelection,
+				seed: options?.seed,
+				flatSearchThreshold: options?.flatSearchThreshold,
+				lock: lease
+					? new LeaseLock(db, lease === true ? {} : lease)
+					: undefined,
+				quantizer: options?.quantizer,
+				rerank: options?.rerank,
+			},
+		);
 
 		this.sdk = contractSDK;
 	}
@@ -196,3 +310,58 @@ export class EizenDbVector<M = unknown> extends HNSW<M> {
 		return { contractTxId, srcTxId };
 	}
 }
+
+export { CachedDB, EizenMemory, HNSW, type CachedDBOptions, type DBInterface };
+export {
+	LeaseLock,
+	type DistanceMetric,
+	type FlatSearchOptions,
+	type HNSWOptions,
+	type IntegrityIssue,
+	type IntegrityReport,
+	type KNNResult,
+	type KNNSearchOptions,
+	type LeaseLockOptions,
+	type MetadataFilter,
+	type NeighborSelection,
+	type Point,
+	type RangeSearchOptions,
+	type RebuildOptions,
+	type WriteLock,
+};
+export {
+	CODEC_VERSION,
+	base64Values,
+	codec_version,
+	migrate_codec,
+	rawValues,
+	type CodecOptions,
+	type MigrationOptions,
+	type MigrationReport,
+	type ValueCodec,
+	type ValueStore,
+};
+export {
+	BinaryQuantizer,
+	ProductQuantizer,
+	ScalarQuantizer,
+	hamming_distance,
+	load_quantizer,
+	type ProductQuantizerOptions,
+	type Quantizer,
+};
+export {
+	count_reads,
+	format_benchmark,
+	ground_truth,
+	load_dataset,
+	read_bvecs,
+	read_fvecs,
+	read_ivecs,
+	read_vectors,
+	run_benchmark,
+	type BenchmarkOptions,
+	type BenchmarkResult,
+	type Dataset,
+	type ReadStats,
+} from "./bench";
@@ -0,0 +1,557 @@
+import type { DistanceTable, Point, Quantizer } from "../types";
+import { norm, seeded_random } from "../utils";
+
+/**
+ * Vector quantization for compact point storage.
+ *
+ * A quantizer compresses every vector into codes (small unsigned integers), which are
+ * stored as `PointQuant` records instead of the full-precision `Point` records. The
+ * graph is then built and searched over the decoded (approximate) vectors, and with
+ * `rerank` the final candidates of a search are re-ranked with the exact vectors.
+ *
+ * Quantizers are trained on a sample of the data before the index is created, and are
+ * stored with the index on its first insert, so that it can be reopened without them.
+ *
+ * - `ScalarQuantizer`: 8 bits per dimension (4x smaller), nearly lossless
+ * - `ProductQuantizer`: 8 bits per subspace of several dimensions (e.g. 32x smaller),
+ *   with distances computed from lookup tables during searches
+ * - `BinaryQuantizer`: 1 bit per dimension (32x smaller), with Hamming distances during
+ *   searches; meant to be combined with `rerank`
+ *
+ * @example
+ * ```typescript
+ * const quantizer = ScalarQuantizer.fit(sample);
+ * const index = new HNSW(db, 16, 128, 20, { quantizer });
+ * await index.insertMany(vectors);
+ *
+ * // later, the quantizer is loaded from the index
+ * const reopened = new HNSW(db, 16, 128, 20);
+ * await reopened.knn_search(query, 10);
+ *
+ * // compress an existing index, training on its own points
+ * const pq = ProductQuantizer.fit(await index.sample_points(5000), { subspaces: 192 });
+ * const { index: compressed } = await index.rebuild(newDb, { quantizer: pq });
+ * ```
+ */
+
+/** Number of levels of a scalar code (8 bits) */
+const LEVELS = 255;
+
+/**
+ * ScalarQuantizer - Compresses every component of a vector into 8 bits
+ *
+ * Each dimension is mapped linearly from its `[min, max]` range (learned from a sample)
+ * onto the integers 0..255, which is a 4x reduction over 32-bit floats with little
+ * loss of recall. Values outside the range are clamped to it.
+ */
+export class ScalarQuantizer implements Quantizer {
+	readonly kind = "scalar";
+	/** Smallest value of each dimension */
+	readonly min: number[];
+	/** Largest value of each dimension */
+	readonly max: number[];
+
+	/**
+	 * @param min Smallest value of each dimension
+	 * @param max Largest value of each dimension
+	 * @throws Error if the ranges have different dimensions, or a minimum exceeds its maximum
+	 */
+	constructor(min: number[], max: number[]) {
+		if (min.length === 0 || min.length !== max.length) {
+			throw new Error(
+				`Invalid ranges for ${min.length} and ${max.length} dimensions`,
+			);
+		}
+		min.forEach((lo, i) => {
+			if (!(lo <= max[i])) {
+				throw new Error(`Invalid range [${lo}, ${max[i]}] for dimension ${i}`);
+			}
+		});
+		this.min = min;
+		this.max = max;
+	}
+
+	get dimension(): number {
+		return this.min.length;
+	}
+
+	/**
+	 * Learn the range of every dimension from a sample of the vectors.
+	 *
+	 * @param sample Vectors representative of the data that will be indexed
+	 * @returns A quantizer covering the ranges of the sample
+	 * @throws Error if the sample is empty or its vectors have different dimensions
+	 *
+	 * @example
+	 * ```typescript
+	 * const quantizer = ScalarQuantizer.fit(vectors.slice(0, 1000));
+	 * ```
+	 */
+	static fit(sample: Point[]): ScalarQuantizer {
+		if (sample.length === 0 || sample[0].length === 0) {
+			throw new Error("Cannot fit a quantizer to an empty sample");
+		}
+
+		const min = [...sample[0]];
+		const max = [...sample[0]];
+		for (const p of sample) {
+			if (p.length !== min.length) {
+				throw new Error(
+					`Vectors have different dimensions: ${min.length} and ${p.length}`,
+				);
+			}
+			p.forEach((x, i) => {
+				if (x < min[i]) min[i] = x;
+				if (x > max[i]) max[i] = x;
+			});
+		}
+		return new ScalarQuantizer(min, max);
+	}
+
+	encode(p: Point): number[] {
+		check_dimension(this.dimension, p.length);
+		return p.map((x, i) => {
+			const range = this.max[i] - this.min[i];
+			if (range === 0) return 0;
+			const code = Math.round(((x - this.min[i]) / range) * LEVELS);
+			return Math.min(LEVELS, Math.max(0, code));
+		});
+	}
+
+	decode(codes: number[]): Point {
+		check_dimension(this.dimension, codes.length);
+		return codes.map(
+			(code, i) => this.min[i] + (code / LEVELS) * (this.max[i] - this.min[i]),
+		);
+	}
+
+	toJSON(): { kind: string; min: number[]; max: number[] } {
+		return { kind: this.kind, min: this.min, max: this.max };
+	}
+}
+
+/** Options of {@link ProductQuantizer.fit} */
+export type ProductQuantizerOptions = {
+	/** Number of subvectors every vector is split into, one code each; must divide the dimension */
+	subspaces: number;
+	/** Number of centroids of each subspace, at most 256 so that a code fits in a byte (default: 256) */
+	centroids?: number;
+	/** Maximum number of k-means iterations per subspace (default: 25) */
+	iterations?: number;
+	/** Seed of the k-means initialization, for reproducible codebooks (default: unseeded) */
+	seed?: number;
+};
+
+/**
+ * ProductQuantizer - Compresses every subvector of a vector into a single byte
+ *
+ * Vectors are split into `subspaces` consecutive subvectors, and each subvector is
+ * replaced by the index of its nearest centroid in the codebook of its subspace (Jégou
+ * et al., 2011). With 256 centroids, 1536-dimensional float vectors split into 192
+ * subspaces take 192 bytes instead of 6144, a 32x reduction.
+ *
+ * Searches use asymmetric distance computation: for each query, the distances between
+ * its subvectors and all centroids are computed once (see `distance_table`), and the
+ * distance to a point is then the sum of one table entry per code. The query itself is
+ * never quantized.
+ */
+export class ProductQuantizer implements Quantizer {
+	readonly kind = "pq";
+	/** Centroids of every subspace: `codebooks[subspace][code]` is a subvector */
+	readonly codebooks: number[][][];
+	/** Squared norms of the centroids, for cosine distances */
+	private norms: number[][];
+
+	/**
+	 * @param codebooks Centroids of every subspace, all of the same dimension
+	 * @throws Error if there are no centroids, too many of them, or subvectors of different dimensions
+	 */
+	constructor(codebooks: number[][][]) {
+		const width = codebooks[0]?.[0]?.length ?? 0;
+		if (width === 0) {
+			throw new Error("Codebooks must have at least one centroid");
+		}
+		codebooks.forEach((book, s) => {
+			if (book.length === 0 || book.length > 256) {
+				throw new Error(
+					`Subspace ${s} must have between 1 and 256 centroids, got ${book.length}`,
+				);
+			}
+			for (const c of book) {
+				if (c.length !== width) {
+					throw new Error(
+						`Centroids have different dimensions: ${width} and ${c.length}`,
+					);
+				}
+			}
+		});
+		this.codebooks = codebooks;
+		this.norms = codebooks.map((book) =>
+			book.map((c) => c.reduce((sum, x) => sum + x * x, 0)),
+		);
+	}
+
+	/** Number of subvectors, and of codes per vector */
+	get subspaces(): number {
+		return this.codebooks.length;
+	}
+
+	/** Number of dimensions of each subvector */
+	get width(): number {
+		return this.codebooks[0][0].length;
+	}
+
+	get dimension(): number {
+		return this.subspaces * this.width;
+	}
+
+	/**
+	 * Train the codebooks on a sample of the vectors, with k-means in every subspace.
+	 *
+	 * The sample should hold at least as many vectors as there are centroids, ideally many
+	 * more; with a smaller sample, every subspace gets one centroid per vector.
+	 *
+	 * @param sample Vectors representative of the data that will be indexed
+	 * @param options Number of subspaces, and optionally of centroids, iterations and a seed
+	 * @returns A quantizer with the trained codebooks
+	 * @throws Error if the sample is empty, has mixed dimensions, or cannot be split into the subspaces
+	 *
+	 * @example
+	 * ```typescript
+	 * // 1536-dimensional embeddings in 192 bytes each
+	 * const quantizer = ProductQuantizer.fit(sample, { subspaces: 192, seed: 42 });
+	 * ```
+	 */
+	static fit(
+		sample: Point[],
+		options: ProductQuantizerOptions,
+	): ProductQuantizer {
+		if (sample.length === 0 || sample[0].length === 0) {
+			throw new Error("Cannot fit a quantizer to an empty sample");
+		}
+		const dimension = sample[0].length;
+		for (const p of sample) {
+			if (p.length !== dimension) {
+				throw new Error(
+					`Vectors have different dimensions: ${dimension} and ${p.length}`,
+				);
+			}
+		}
+
+		const { subspaces, iterations = 25, seed } = options;
+		if (
+			!Number.isInteger(subspaces) ||
+			subspaces < 1 ||
+			dimension % subspaces !== 0
+		) {
+			throw new Error(
+				`Vectors of dimension ${dimension} cannot be split into ${subspaces} subspaces`,
+			);
+		}
+		const centroids = options.centroids ?? 256;
+		if (!Number.isInteger(centroids) || centroids < 1 || centroids > 256) {
+			throw new Error(
+				`Number of centroids must be between 1 and 256, got ${centroids}`,
+			);
+		}
+
+		const random = seed !== undefined ? seeded_random(seed) : Math.random;
+		const width = dimension / subspaces;
+		const codebooks = Array.from({ length: subspaces }, (_, s) =>
+			kmeans(
+				sample.map((p) => p.slice(s * width, (s + 1) * width)),
+				Math.min(centroids, sample.length),
+				iterations,
+				random,
+			),
+		);
+		return new ProductQuantizer(codebooks);
+	}
+
+	encode(p: Point): number[] {
+		check_dimension(this.dimension, p.length);
+		const width = this.width;
+		return this.codebooks.map((book, s) =>
+			nearest(book, p.slice(s * width, (s + 1) * width)),
+		);
+	}
+
+	decode(codes: number[]): Point {
+		if (codes.length !== this.subspaces) {
+			throw new Error(`Expected ${this.subspaces} codes, got ${codes.length}`);
+		}
+		return codes.flatMap((code, s) => {
+			const centroid = this.codebooks[s][code];
+			if (!centroid) {
+				throw new Error(`Invalid code ${code} for subspace ${s}`);
+			}
+			return centroid;
+		});
+	}
+
+	/**
+	 * Precomputes the distances between the subvectors of a query and all centroids.
+	 *
+	 * Supports the `"l2"`, `"cosine"` and `"inner_product"` metrics, whose distances
+	 * decompose over subspaces; the distances equal those to the decoded vectors.
+	 *
+	 * @param q The query vector
+	 * @param metric Name of the metric of the index
+	 * @returns The distance of the query to a point, given its codes, or undefined for other metrics
+	 */
+	distance_table(q: Point, metric: string): DistanceTable | undefined {
+		check_dimension(this.dimension, q.length);
+		const width = this.width;
+		const sub = (s: number) => q.slice(s * width, (s + 1) * width);
+		const sum = (table: number[][], codes: number[]) =>
+			codes.reduce((total, code, s) => total + table[s][code], 0);
+
+		if (metric === "l2") {
+			const table = this.codebooks.map((book, s) => {
+				const qs = sub(s);
+				return book.map((c) =>
+					c.reduce((total, x, i) => total + (qs[i] - x) ** 2, 0),
+				);
+			});
+			return (codes) => Math.sqrt(sum(table, codes));
+		}
+
+		if (metric !== "cosine" && metric !== "inner_product") return undefined;
+		const dots = this.codebooks.map((book, s) => {
+			const qs = sub(s);
+			return book.map((c) => c.reduce((total, x, i) => total + qs[i] * x, 0));
+		});
+		if (metric === "inner_product") {
+			return (codes) => 1 - sum(dots, codes);
+		}
+		const qNorm = norm(q);
+		return (codes) =>
+			1 - sum(dots, codes) / (qNorm * Math.sqrt(sum(this.norms, codes)));
+	}
+
+	/** Codebooks as base64 encoded 32-bit floats, one string per subspace */
+	toJSON(): { kind: string; width: number; codebooks: string[] } {
+		return {
+			kind: this.kind,
+			width: this.width,
+			codebooks: this.codebooks.map((book) => encode_floats(book.flat())),
+		};
+	}
+}
+
+/** Number of set bits of every byte */
+const POPCOUNT = Array.from({ length: 256 }, (_, b) => {
+	let count = 0;
+	for (let x = b; x !== 0; x >>= 1) count += x & 1;
+	return count;
+});
+
+/**
+ * BinaryQuantizer - Compresses every component of a vector into its sign bit
+ *
+ * Positive components become 1 bits and all others 0 bits, packed eight dimensions
+ * per code (byte), so that vectors are 32x smaller than as 32-bit floats. Codes decode
+ * to vectors of +1 and -1, and vectors of the same signs are therefore identical.
+ *
+ * Searches compare the sign bits of the query with the codes of the points by their
+ * Hamming distance `h` (the number of differing signs), which needs no floating point
+ * math. Distances are reported in the index metric of the decoded vectors (`2h / d` for
+ * cosine), so that they can be mixed with other distances of the index.
+ *
+ * Sign bits only roughly preserve the order of neighbors, so this works best for
+ * high-dimensional embeddings with components centered around zero (such as those of
+ * OpenAI models), with `rerank` to re-score the final candidates with the full vectors.
+ */
+export class BinaryQuantizer implements Quantizer {
+	readonly kind = "binary";
+	readonly dimension: number;
+
+	/**
+	 * @param dimension Number of dimensions of the vectors
+	 * @throws Error if the dimension is not a positive integer
+	 */
+	constructor(dimension: number) {
+		if (!Number.isInteger(dimension) || dimension < 1) {
+			throw new Error(`Invalid dimension ${dimension}`);
+		}
+		this.dimension = dimension;
+	}
+
+	encode(p: Point): number[] {
+		check_dimension(this.dimension, p.length);
+		const codes = Array(Math.ceil(p.length / 8)).fill(0);
+		p.forEach((x, i) => {
+			if (x > 0) codes[i >> 3] |= 1 << (i & 7);
+		});
+		return codes;
+	}
+
+	decode(codes: number[]): Point {
+		const bytes = Math.ceil(this.dimension / 8);
+		if (codes.length !== bytes) {
+			throw new Error(`Expected ${bytes} codes, got ${codes.length}`);
+		}
+		return Array.from({ length: this.dimension }, (_, i) =>
+			codes[i >> 3] & (1 << (i & 7)) ? 1 : -1,
+		);
+	}
+
+	/**
+	 * Compares the sign bits of a query with codes by their Hamming distance.
+	 *
+	 * Supports the `"cosine"`, `"l2"` and `"inner_product"` metrics, the distances equal
+	 * those between the decoded query and the decoded points.
+	 *
+	 * @param q The query vector
+	 * @param metric Name of the metric of the index
+	 * @returns The distance of the query to a point, given its codes, or undefined for other metrics
+	 */
+	distance_table(q: Point, metric: string): DistanceTable | undefined {
+		const d = this.dimension;
+		const scale: Record<string, (h: number) => number> = {
+			cosine: (h) => (2 * h) / d,
+			l2: (h) => 2 * Math.sqrt(h),
+			inner_product: (h) => 1 - (d - 2 * h),
+		};
+		if (!Object.hasOwn(scale, metric)) return undefined;
+
+		const bits = this.encode(q);
+		const distance = scale[metric];
+		return (codes) => distance(hamming_distance(bits, codes));
+	}
+
+	toJSON(): { kind: string; dimension: number } {
+		return { kind: this.kind, dimension: this.dimension };
+	}
+}
+
+/**
+ * Number of differing bits of two byte arrays of the same length.
+ *
+ * @example
+ * ```typescript
+ * hamming_distance([0b1010], [0b0110]); // 2
+ * ```
+ */
+export function hamming_distance(a: number[], b: number[]): number {
+	let h = 0;
+	for (let i = 0; i < a.length; i++) {
+		h += POPCOUNT[a[i] ^ b[i]];
+	}
+	return h;
+}
+
+/** Index of the centroid closest (in squared Euclidean distance) to a vector */
+function nearest(centroids: Point[], v: Point): number {
+	let best = 0;
+	let bestDist = Number.POSITIVE_INFINITY;
+	centroids.forEach((c, i) => {
+		let dist = 0;
+		for (let j = 0; j < v.length; j++) {
+			dist += (v[j] - c[j]) ** 2;
+		}
+		if (dist < bestDist) {
+			bestDist = dist;
+			best = i;
+		}
+	});
+	return best;
+}
+
+/**
+ * Clusters vectors with Lloyd's k-means, starting from k distinct random vectors.
+ * Centroids are rounded to 32-bit floats, as they are stored that way.
+ */
+function kmeans(
+	vectors: Point[],
+	k: number,
+	iterations: number,
+	random: () => number,
+): Point[] {
+	// partial Fisher-Yates shuffle for the initial centroids
+	const order = vectors.map((_, i) => i);
+	for (let i = 0; i < k; i++) {
+		const j = i + Math.floor(random() * (order.length - i));
+		[order[i], order[j]] = [order[j], order[i]];
+	}
+	let centroids = order.slice(0, k).map((i) => [...vectors[i]]);
+
+	const assignment = vectors.map(() => -1);
+	for (let it = 0; it < iterations; it++) {
+		let changed = false;
+		const sums = centroids.map((c) => c.map(() => 0));
+		const counts = centroids.map(() => 0);
+		vectors.forEach((v, i) => {
+			const c = nearest(centroids, v);
+			if (c !== assignment[i]) {
+				assignment[i] = c;
+				changed = true;
+			}
+			counts[c]++;
+			v.forEach((x, j) => {
+				sums[c][j] += x;
+			});
+		});
+		if (!changed) break;
+
+		// empty clusters keep their centroid
+		centroids = centroids.map((c, i) =>
+			counts[i] === 0 ? c : sums[i].map((x) => x / counts[i]),
+		);
+	}
+	return centroids.map((c) => c.map(Math.fround));
+}
+
+/** Encodes numbers as base64 encoded 32-bit floats */
+function encode_floats(xs: number[]): string {
+	return Buffer.from(new Float32Array(xs).buffer).toString("base64");
+}
+
+/** Decodes numbers from base64 encoded 32-bit floats */
+function decode_floats(data: string): number[] {
+	// copied, as the buffer may not be aligned to 4 bytes
+	const bytes = Uint8Array.from(Buffer.from(data, "base64"));
+	return Array.from(new Float32Array(bytes.buffer));
+}
+
+/** @throws Error if a vector does not have the dimension of a quantizer */
+function check_dimension(dimension: number, n: number): void {
+	if (n !== dimension) {
+		throw new Error(`Expected a vector of dimension ${dimension}, got ${n}`);
+	}
+}
+
+/**
+ * Restore a quantizer from its stored parameters (the output of its `toJSON`).
+ *
+ * @param params Stored parameters of the quantizer
+ * @returns The quantizer
+ * @throws Error if the kind of quantizer is unknown
+ */
+export function load_quantizer(params: {
+	kind: string;
+	[key: string]: unknown;
+}): Quantizer {
+	switch (params.kind) {
+		case "scalar":
+			return new ScalarQuantizer(
+				params.min as number[],
+				params.max as number[],
+			);
+		case "binary":
+			return new BinaryQuantizer(params.dimension as number);
+		case "pq": {
+			const width = params.width as number;
+			return new ProductQuantizer(
+				(params.codebooks as string[]).map((data) => {
+					const floats = decode_floats(data);
+					return Array.from({ length: floats.length / width }, (_, i) =>
+						floats.slice(i * width, (i + 1) * width),
+					);
+				}),
+			);
+		}
+		default:
+			throw new Error(`Unknown quantizer: ${params.kind}`);
+	}
+}
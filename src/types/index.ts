@@ -44,6 +44,8 @@ export type Graph = Record<number, LayerNode>;
  *
  * Maps neighbor point indices to their distances from this point.
  * The distances are used for efficient neighbor traversal during search.
+ * A distance is NaN if it is not stored (see the compact neighbors of `CodecOptions`),
+ * and then measured again when the neighbors are pruned.
  *
  * @example
  * ```typescript
@@ -112,4 +114,380 @@ export type KNNResult<M = unknown> = {
 	distance: number;
 	/** Optional metadata associated with this point */
 	metadata: M | null;
+	/** The stored vector of this point, only present if requested with `includeVectors` */
+	vector?: Point;
+};
+
+/**
+ * A distance function between two points.
+ *
+ * Lower values must mean "more similar"; the HNSW search algorithms rely on this
+ * ordering when maintaining their candidate heaps.
+ *
+ * @example
+ * ```typescript
+ * const manhattan: DistanceFunction = (a, b) =>
+ *   a.reduce((sum, val, idx) => sum + Math.abs(val - b[idx]), 0);
+ * ```
+ */
+export type DistanceFunction = (a: Point, b: Point) => number;
+
+/**
+ * Names of the distance metrics built into Eizen.
+ *
+ * - `cosine`: 1 - cosine similarity, range [0, 2] (default)
+ * - `l2`: Euclidean distance
+ * - `inner_product`: 1 - dot product, intended for normalized vectors
+ */
+export type MetricName = "cosine" | "l2" | "inner_product";
+
+/**
+ * The distance metric used by an HNSW index.
+ *
+ * Either the name of a built-in metric, or a user-supplied distance function
+ * together with a unique name. The name is persisted with the index so that
+ * reopening it with a different metric can be detected and rejected.
+ *
+ * @example
+ * ```typescript
+ * const metric: DistanceMetric = "l2";
+ *
+ * const custom: DistanceMetric = {
+ *   name: "manhattan",
+ *   distance: (a, b) => a.reduce((sum, val, idx) => sum + Math.abs(val - b[idx]), 0),
+ * };
+ * ```
+ */
+export type DistanceMetric =
+	| MetricName
+	| {
+			/** Unique name of the metric, stored in the index (not one of the built-in names) */
+			name: string;
+			/** The distance function itself */
+			distance: DistanceFunction;
+	  };
+
+/**
+ * Strategy used to select the neighbors of a node when building the graph.
+ *
+ * - `simple`: Takes the closest candidates (fast, no extra reads)
+ * - `heuristic`: Algorithm 4 of the HNSW paper, only keeps a candidate if it is closer
+ *   to the node than to every neighbor already selected
+ */
+export type NeighborSelection = "simple" | "heuristic";
+
+/**
+ * Optional configuration for an HNSW index, in addition to the
+ * positional graph parameters (`M`, `ef_construction`, `ef_search`).
+ */
+export type HNSWOptions = {
+	/** Distance metric used to compare points (default: `"cosine"`) */
+	metric?: DistanceMetric;
+	/** Neighbor selection strategy (default: `"simple"`) */
+	neighborSelection?: NeighborSelection;
+	/** Whether the heuristic also considers the neighbors of the candidates (default: false) */
+	extendCandidates?: boolean;
+	/** Whether to fill remaining connections with discarded candidates (default: true) */
+	keepPrunedConnections?: boolean;
+	/**
+	 * Seed for the level assignment of new points, which makes index builds reproducible
+	 * (default: none, levels are drawn with `Math.random`)
+	 */
+	seed?: number;
+	/**
+	 * Random number generator for the level assignment, returning numbers in [0, 1).
+	 * Takes precedence over `seed`.
+	 */
+	random?: () => number;
+	/**
+	 * Indexes with fewer points than this are searched exactly with `flat_search`
+	 * instead of through the graph (default: 0, never)
+	 */
+	flatSearchThreshold?: number;
+	/**
+	 * Lock held during every write, to serialize writers of different processes
+	 * (default: none, writes are only serialized within the process)
+	 */
+	lock?: WriteLock;
+	/**
+	 * Stores points as compact codes instead of full-precision vectors, and computes the
+	 * distances of the graph in the quantized space. Stored with the index on the first
+	 * insert, and loaded from it when an existing index is opened (default: none)
+	 */
+	quantizer?: Quantizer;
+	/**
+	 * With a quantizer, also store full-precision vectors, and re-rank the final candidates
+	 * of searches with them. Stored with the index on the first insert (default: false)
+	 */
+	rerank?: boolean;
+};
+
+/**
+ * Compresses vectors into codes, see `ScalarQuantizer`.
+ *
+ * Codes are arrays of unsigned 32-bit integers, stored as `PointQuant` records.
+ */
+export interface Quantizer {
+	/** Name of the quantization method, stored with the index */
+	readonly kind: string;
+	/** Number of dimensions of the vectors */
+	readonly dimension: number;
+	/** Compresses a vector into its codes */
+	encode(p: Point): number[];
+	/** Reconstructs an approximation of a vector from its codes */
+	decode(codes: number[]): Point;
+	/** Trained parameters, stored with the index and read back by `load_quantizer` */
+	toJSON(): { kind: string };
+	/**
+	 * Precomputes the distances between a query and the codes of a metric (asymmetric
+	 * distance computation), so that the distance to a point is found from its codes
+	 * without decoding it. Returns undefined for metrics it does not support, whose
+	 * distances are then computed from the decoded vectors.
+	 */
+	distance_table?(q: Point, metric: string): DistanceTable | undefined;
+}
+
+/** Distance of a query to a point, computed from the codes of the point */
+export type DistanceTable = (codes: number[]) => number;
+
+/**
+ * Options for rebuilding an index into another database.
+ * Unset parameters are taken over from the source index, except for the quantizer:
+ * rebuilds are not quantized unless a `quantizer` is given.
+ */
+export type RebuildOptions = Omit<HNSWOptions, "metric"> & {
+	/** Maximum number of connections per node */
+	m?: number;
+	/** Size of the candidate list during construction */
+	efConstruction?: number;
+	/** Size of the candidate list during search */
+	efSearch?: number;
+	/** Number of points read and inserted at once (default: 1000) */
+	batchSize?: number;
+};
+
+/**
+ * A lock that serializes writes to an index.
+ */
+export type WriteLock = {
+	/**
+	 * Waits until the lock is acquired.
+	 *
+	 * @returns A function that releases the lock
+	 */
+	acquire(): Promise<() => Promise<void>>;
+	/**
+	 * Checks that the lock is still held, e.g. that a lease has not expired. Called before
+	 * batched writes are committed (optional).
+	 *
+	 * @throws Error if the lock was lost
+	 */
+	check?(): Promise<void>;
+};
+
+/**
+ * Optional behavior for a search within a single layer of the graph.
+ */
+export type SearchLayerOptions = {
+	/**
+	 * Decides which of the given point indices may be returned as results.
+	 * Rejected points are still visited and used for routing, which keeps the
+	 * graph navigable when e.g. some points are deleted.
+	 */
+	accept?: (idxs: number[]) => Promise<boolean[]>;
+
+	/**
+	 * Keeps every point within this distance of the query as a result, even beyond
+	 * `ef`, and keeps expanding while candidates are within it. Up to `ef` points
+	 * outside the radius are kept as well, so that the search does not stop early
+	 * at the boundary.
+	 */
+	radius?: number;
+
+	/** Maximum number of points within `radius` to keep (default: unlimited) */
+	limit?: number;
+
+	/** Stops the search when aborted, returning the best results found so far */
+	signal?: AbortSignal;
+
+	/** Stops the search at this time (milliseconds since epoch, as `Date.now()`) */
+	deadline?: number;
+};
+
+/**
+ * Condition on a single metadata field.
+ *
+ * Either a plain value, which must be equal to the field, or an object of operators
+ * that must all hold:
+ * - `$eq` / `$ne`: (in)equality
+ * - `$in` / `$nin`: membership in a list of values
+ * - `$gt` / `$gte` / `$lt` / `$lte`: ranges, for numbers and strings
+ *
+ * @example
+ * ```typescript
+ * const category: FieldCondition<string> = { $in: ['research', 'news'] };
+ * const year: FieldCondition<number> = { $gte: 2020, $lt: 2025 };
+ * ```
+ */
+export type FieldCondition<V> =
+	| V
+	| {
+			$eq?: V;
+			$ne?: V;
+			$in?: V[];
+			$nin?: V[];
+			$gt?: V;
+			$gte?: V;
+			$lt?: V;
+			$lte?: V;
+	  };
+
+/**
+ * Declarative condition on the metadata of a point.
+ * All given fields must match; points without metadata never match.
+ *
+ * @template M The type of metadata associated with points
+ *
+ * @example
+ * ```typescript
+ * type DocMetadata = { tenant: string; year: number };
+ * const condition: MetadataCondition<DocMetadata> = {
+ *   tenant: 'acme',
+ *   year: { $gte: 2020 },
+ * };
+ * ```
+ */
+export type MetadataCondition<M> = {
+	[K in keyof M]?: FieldCondition<M[K]>;
+};
+
+/**
+ * Filter on the metadata of a point, either as a predicate or a declarative condition.
+ *
+ * @template M The type of metadata associated with points
+ *
+ * @example
+ * ```typescript
+ * const byPredicate: MetadataFilter<DocMetadata> = (metadata) => metadata?.tenant === 'acme';
+ * const byCondition: MetadataFilter<DocMetadata> = { tenant: 'acme' };
+ * ```
+ */
+export type MetadataFilter<M> =
+	| ((metadata: M | null, id: number) => boolean)
+	| MetadataCondition<M>;
+
+/**
+ * Configuration stored with an index (its header), written on the first insert.
+ * It is the single record that describes how the index was built.
+ */
+export type IndexConfig = {
+	/** Name of the distance metric */
+	metric: string;
+	/** Number of dimensions of every vector in the index */
+	dimension: number;
+	/** Maximum number of connections per node in the upper layers */
+	m: number;
+	/** Size of the candidate list during construction, when the index was created */
+	efConstruction: number;
+};
+
+/**
+ * Options of a k-nearest neighbor search.
+ *
+ * @template M The type of metadata associated with points
+ */
+export type KNNSearchOptions<M = unknown> = {
+	/** Only return points whose metadata matches this filter */
+	filter?: MetadataFilter<M>;
+
+	/** Size of the candidate list for this query, overrides the index `ef_search` */
+	ef?: number;
+
+	/** Whether to include the stored vector of each result */
+	includeVectors?: boolean;
+
+	/**
+	 * Re-ranks the results with Maximal Marginal Relevance, using this value as its
+	 * lambda between 0 and 1: 1 ranks by relevance only, 0 by diversity only.
+	 * More candidates than K are fetched, and each next result is the one that is close
+	 * to the query but far from the results selected before it.
+	 */
+	diversity?: number;
+
+	/**
+	 * Stops the graph walk when aborted, returning the best results found so far.
+	 * Useful to cancel queries of requests that were closed.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Stops the graph walk at this time (milliseconds since epoch, as `Date.now()`),
+	 * returning the best results found so far.
+	 */
+	deadline?: number;
+};
+
+/**
+ * Options for exact (brute-force) search.
+ *
+ * @template M The type of metadata associated with points
+ */
+export type FlatSearchOptions<M = unknown> = Omit<KNNSearchOptions<M>, "ef"> & {
+	/** Number of points read at once (default: 1000) */
+	chunkSize?: number;
+};
+
+/**
+ * Options for range search.
+ *
+ * @template M The type of metadata associated with points
+ */
+export type RangeSearchOptions<M = unknown> = Omit<
+	KNNSearchOptions<M>,
+	"diversity"
+> & {
+	/** Maximum number of results, the closest ones are returned (default: unlimited) */
+	limit?: number;
+};
+
+/**
+ * A problem in the stored graph, found by `HNSW.verify`.
+ *
+ * - `missing_entry_point`: The index has points, but no entry point
+ * - `invalid_entry_point`: The entry point has no node in the top layer
+ * - `missing_node`: A point has no node in a layer, although it has one in a higher layer
+ *   (or in layer 0, where every point must have one). Left behind by interrupted inserts.
+ * - `dangling_edge`: A node links to a point that has no node in that layer
+ * - `one_directional_edge`: A node links to a point that does not link back. Pruning
+ *   creates these during regular inserts, so they do not make an index invalid.
+ * - `degree_exceeded`: A node has more connections than allowed in its layer (`m` or `m_max0`)
+ * - `unreachable`: A node cannot be reached from the entry point within its layer
+ */
+export type IntegrityIssue =
+	| { type: "missing_entry_point" }
+	| { type: "invalid_entry_point"; ep: number; layer: number }
+	| { type: "missing_node"; layer: number; idx: number }
+	| { type: "dangling_edge"; layer: number; from: number; to: number }
+	| { type: "one_directional_edge"; layer: number; from: number; to: number }
+	| {
+			type: "degree_exceeded";
+			layer: number;
+			idx: number;
+			degree: number;
+			max: number;
+	  }
+	| { type: "unreachable"; layer: number; idx: number };
+
+/**
+ * Result of an integrity check of the stored graph.
+ */
+export type IntegrityReport = {
+	/** Whether the graph has no issues, apart from one-directional edges */
+	valid: boolean;
+	/** All issues found */
+	issues: IntegrityIssue[];
+	/** Number of points in the index */
+	points: number;
+	/** Number of nodes in each layer, starting from layer 0 */
+	nodes: number[];
 };
@@ -1,5 +1,12 @@
 import { Heap } from "heap-js";
-import type { Node, Point } from "../types";
+import type {
+	DistanceFunction,
+	DistanceMetric,
+	MetadataFilter,
+	MetricName,
+	Node,
+	Point,
+} from "../types";
 
 /**
  * HNSW Utility Functions
@@ -63,11 +70,28 @@ export function compareNode(a: Node, b: Node) {
  * const b = [4, 5, 6];
  * const result = dot_product(a, b); // 1*4 + 2*5 + 3*6 = 32
  * ```
+ *
+ * @throws Error if the vectors have different dimensions
  */
 export function dot_product(a: Point, b: Point): number {
+	check_dimensions(a, b);
 	return a.reduce((sum, val, idx) => sum + val * b[idx], 0);
 }
 
+/**
+ * Ensures that two vectors have the same dimension, as element-wise operations
+ * would otherwise silently compute garbage with `undefined` elements.
+ *
+ * @throws Error if the vectors have different dimensions
+ */
+function check_dimensions(a: Point, b: Point): void {
+	if (a.length !== b.length) {
+		throw new Error(
+			`Vectors have different dimensions: ${a.length} and ${b.length}`,
+		);
+	}
+}
+
 /**
  * Computes the Euclidean norm (magnitude) of a vector.
  *
@@ -150,7 +174,207 @@ export function inner_product(a: Point, b: Point): number {
  * ```
  *
  * @note Fixed implementation - corrects the parentheses placement for proper calculation
+ * @throws Error if the vectors have different dimensions
  */
 export function l2_distance(a: Point, b: Point): number {
+	check_dimensions(a, b);
 	return Math.sqrt(a.reduce((sum, val, idx) => sum + (val - b[idx]) ** 2, 0));
 }
+
+/**
+ * Computes the inner product distance between two vectors.
+ *
+ * Defined as 1 - dot product, so that larger inner products (more similar vectors)
+ * yield smaller distances. For normalized vectors this is equal to the cosine distance,
+ * but avoids computing the norms on every comparison.
+ *
+ * @param a First vector
+ * @param b Second vector
+ * @returns The inner product distance between the vectors
+ *
+ * @example
+ * ```typescript
+ * const a = [0.6, 0.8];
+ * const b = [0.8, 0.6];
+ * const distance = inner_product_distance(a, b); // 1 - (0.48 + 0.48) = 0.04
+ * ```
+ */
+export function inner_product_distance(a: Point, b: Point): number {
+	return 1 - dot_product(a, b);
+}
+
+/** Built-in distance functions, keyed by their metric name. */
+export const distance_functions: Record<MetricName, DistanceFunction> = {
+	cosine: cosine_distance,
+	l2: l2_distance,
+	inner_product: inner_product_distance,
+};
+
+/**
+ * Resolves a distance metric into its persisted name and distance function.
+ *
+ * @param metric A built-in metric name, or a named user-supplied distance function
+ * @returns The metric name and the function to compute distances with
+ * @throws {Error} If the metric name is not a built-in one
+ * @throws {Error} If a user-supplied function is named like a built-in metric, as it
+ * would be persisted as that metric
+ *
+ * @example
+ * ```typescript
+ * const { name, distance } = resolve_metric("l2");
+ * distance([1, 2], [4, 6]); // 5
+ * ```
+ */
+export function resolve_metric(metric: DistanceMetric): {
+	name: string;
+	distance: DistanceFunction;
+} {
+	if (typeof metric !== "string") {
+		const { name, distance } = metric;
+		// the built-in function itself is fine, e.g. when an index is rebuilt
+		if (
+			Object.hasOwn(distance_functions, name) &&
+			distance !== distance_functions[name as MetricName]
+		) {
+			throw new Error(
+				`Custom metric "${name}" cannot use the name of a built-in metric`,
+			);
+		}
+		return { name, distance };
+	}
+	if (!Object.hasOwn(distance_functions, metric)) {
+		throw new Error(`Unknown distance metric "${metric}"`);
+	}
+	return { name: metric, distance: distance_functions[metric] };
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (Mulberry32).
+ *
+ * The generator only uses 32-bit integer arithmetic, so the same seed produces the
+ * same sequence on every platform and JavaScript engine. It is fast and has good
+ * enough statistical quality for level assignment, but is NOT cryptographically secure.
+ *
+ * @param seed Any number, only its lower 32 bits are used
+ * @returns A function returning numbers in [0, 1), like `Math.random`
+ *
+ * @example
+ * ```typescript
+ * const random = seeded_random(42);
+ * random(); // always the same first number for seed 42
+ * ```
+ */
+export function seeded_random(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/** Operators supported by a field condition, see `FieldCondition`. */
+const field_operators = [
+	"$eq",
+	"$ne",
+	"$in",
+	"$nin",
+	"$gt",
+	"$gte",
+	"$lt",
+	"$lte",
+] as const;
+
+/** Checks whether a field condition is an operator object, rather than a plain value. */
+function is_operator_condition(
+	condition: unknown,
+): condition is Partial<Record<(typeof field_operators)[number], unknown>> {
+	if (typeof condition !== "object" || condition === null) return false;
+	if (Array.isArray(condition)) return false;
+
+	const keys = Object.keys(condition);
+	return (
+		keys.length !== 0 &&
+		keys.every((k) => (field_operators as readonly string[]).includes(k))
+	);
+}
+
+/**
+ * Checks whether a single metadata field matches its condition.
+ * Plain values are compared by (deep) equality, operators must all hold.
+ */
+function matches_field(value: unknown, condition: unknown): boolean {
+	if (!is_operator_condition(condition)) {
+		return is_equal(value, condition);
+	}
+
+	// ranges are only defined for numbers and strings
+	const v = value as number | string;
+	const isComparable = typeof value === "number" || typeof value === "string";
+
+	return Object.entries(condition).every(([op, c]) => {
+		switch (op as (typeof field_operators)[number]) {
+			case "$eq":
+				return is_equal(value, c);
+			case "$ne":
+				return !is_equal(value, c);
+			case "$in":
+				return (c as unknown[]).some((e) => is_equal(value, e));
+			case "$nin":
+				return !(c as unknown[]).some((e) => is_equal(value, e));
+			case "$gt":
+				return isComparable && v > (c as number | string);
+			case "$gte":
+				return isComparable && v >= (c as number | string);
+			case "$lt":
+				return isComparable && v < (c as number | string);
+			case "$lte":
+				return isComparable && v <= (c as number | string);
+		}
+	});
+}
+
+/** Deep equality for JSON-like values, as metadata is stored as JSON. */
+function is_equal(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Checks whether the metadata of a point matches a filter.
+ *
+ * A predicate filter is simply called. For a declarative condition, every field
+ * of the condition must match the corresponding metadata field; points without
+ * metadata never match a condition.
+ *
+ * @param filter Predicate or declarative condition
+ * @param metadata Metadata of the point (null if it has none)
+ * @param id Index of the point, passed on to predicates
+ * @returns True if the point matches the filter
+ *
+ * @example
+ * ```typescript
+ * matches_filter({ year: { $gte: 2020 } }, { year: 2023 }, 0); // true
+ * matches_filter({ tenant: 'acme' }, { tenant: 'globex' }, 1); // false
+ * matches_filter((m) => m !== null, null, 2);                  // false
+ * ```
+ */
+export function matches_filter<M>(
+	filter: MetadataFilter<M>,
+	metadata: M | null,
+	id: number,
+): boolean {
+	if (typeof filter === "function") {
+		return filter(metadata, id);
+	}
+	if (metadata === null || typeof metadata !== "object") {
+		return false;
+	}
+
+	return Object.entries(filter).every(([field, condition]) =>
+		matches_field((metadata as Record<string, unknown>)[field], condition),
+	);
+}
@@ -0,0 +1,215 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	count_reads,
+	format_benchmark,
+	ground_truth,
+	load_dataset,
+	read_bvecs,
+	read_fvecs,
+	read_ivecs,
+	read_vectors,
+	run_benchmark,
+} from "../src/bench";
+import { distance_functions } from "../src/utils";
+import { Memory } from "./db/memory";
+
+/** Encodes vectors in the `.*vecs` format */
+function encode_vecs(
+	vectors: number[][],
+	size: number,
+	write: (view: DataView, offset: number, value: number) => void,
+): Uint8Array {
+	const bytes = new Uint8Array(
+		vectors.reduce((sum, v) => sum + 4 + v.length * size, 0),
+	);
+	const view = new DataView(bytes.buffer);
+	let offset = 0;
+	for (const v of vectors) {
+		view.setInt32(offset, v.length, true);
+		offset += 4;
+		v.forEach((value, i) => write(view, offset + i * size, value));
+		offset += v.length * size;
+	}
+	return bytes;
+}
+
+const fvecs = (vectors: number[][]) =>
+	encode_vecs(vectors, 4, (view, offset, value) =>
+		view.setFloat32(offset, value, true),
+	);
+const ivecs = (vectors: number[][]) =>
+	encode_vecs(vectors, 4, (view, offset, value) =>
+		view.setInt32(offset, value, true),
+	);
+
+describe("benchmark datasets", () => {
+	test("should read fvecs, ivecs and bvecs", () => {
+		expect(
+			read_fvecs(
+				fvecs([
+					[0.5, -1.25],
+					[3, 4],
+				]),
+			),
+		).toEqual([
+			[0.5, -1.25],
+			[3, 4],
+		]);
+		expect(read_ivecs(ivecs([[1, 2, 3], [-7]]))).toEqual([[1, 2, 3], [-7]]);
+		const bvecs = encode_vecs([[0, 128, 255]], 1, (view, offset, value) =>
+			view.setUint8(offset, value),
+		);
+		expect(read_bvecs(bvecs)).toEqual([[0, 128, 255]]);
+	});
+
+	test("should read at most limit vectors", () => {
+		expect(read_fvecs(fvecs([[1], [2], [3]]), 2)).toEqual([[1], [2]]);
+	});
+
+	test("should reject truncated data", () => {
+		const bytes = fvecs([[1, 2, 3]]);
+		expect(() => read_fvecs(bytes.subarray(0, bytes.length - 4))).toThrow(
+			"Invalid vector of dimension 3 at byte 0",
+		);
+		expect(() => read_ivecs(new Uint8Array(2))).toThrow(
+			"Truncated vector header at byte 0",
+		);
+	});
+
+	test("should load a dataset from files", () => {
+		const dir = mkdtempSync(join(tmpdir(), "eizen-bench-"));
+		try {
+			writeFileSync(
+				join(dir, "base.fvecs"),
+				fvecs([
+					[1, 0],
+					[0, 1],
+					[1, 1],
+				]),
+			);
+			writeFileSync(join(dir, "query.json"), JSON.stringify([[1, 0.1]]));
+			writeFileSync(join(dir, "gt.ivecs"), ivecs([[0, 2, 1]]));
+
+			const paths = {
+				base: join(dir, "base.fvecs"),
+				queries: join(dir, "query.json"),
+				groundTruth: join(dir, "gt.ivecs"),
+			};
+			expect(load_dataset(paths)).toEqual({
+				base: [
+					[1, 0],
+					[0, 1],
+					[1, 1],
+				],
+				queries: [[1, 0.1]],
+				groundTruth: [[0, 2, 1]],
+			});
+			// ground truth refers to all base vectors, so it is dropped with a limit
+			expect(load_dataset({ ...paths, limit: 2 }).groundTruth).toBeUndefined();
+			expect(() => read_vectors(join(dir, "base.txt"))).toThrow(
+				'Unsupported vector file format ".txt"',
+			);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("should compute ground truth by brute force", () => {
+		const base = [[0], [10], [3], [4]];
+		expect(ground_truth(base, [[3.4], [9]], 2, distance_functions.l2)).toEqual([
+			[2, 3],
+			[1, 3],
+		]);
+	});
+});
+
+describe("benchmark", () => {
+	const points: number[][] = JSON.parse(
+		readFileSync("./test/data/data.json", "utf-8"),
+	);
+	const dataset = {
+		base: points.slice(0, 300),
+		queries: points.slice(300, 320),
+	};
+
+	test("should count reads of a database", async () => {
+		const { db, stats } = count_reads(new Memory());
+		await db.new_points([[1], [2], [3]]);
+		await db.get_point(0);
+		await db.get_points([0, 1, 2]);
+		expect(await db.get_datasize()).toBe(3);
+		expect(stats).toEqual({ calls: 3, keys: 5 });
+	});
+
+	test("should report recall, QPS and reads for a parameter grid", async () => {
+		const seen: number[] = [];
+		const results = await run_benchmark({
+			dataset,
+			createDb: () => new Memory(),
+			K: 5,
+			m: [4, 8],
+			efConstruction: [32],
+			ef: [5, 50],
+			onResult: (r) => seen.push(r.ef),
+		});
+
+		expect(results.map((r) => [r.m, r.efConstruction, r.ef])).toEqual([
+			[4, 32, 5],
+			[4, 32, 50],
+			[8, 32, 5],
+			[8, 32, 50],
+		]);
+		expect(seen).toEqual([5, 50, 5, 50]);
+		for (const r of results) {
+			expect(r.recall).toBeGreaterThan(0.5);
+			expect(r.recall).toBeLessThanOrEqual(1);
+			expect(r.qps).toBeGreaterThan(0);
+			expect(r.p99LatencyMs).toBeGreaterThanOrEqual(0);
+			expect(r.readsPerQuery).toBeGreaterThan(0);
+			expect(r.keysPerQuery).toBeGreaterThanOrEqual(r.readsPerQuery);
+		}
+		// a wider search finds more neighbors, with more reads
+		expect(results[1].recall).toBeGreaterThanOrEqual(results[0].recall);
+		expect(results[1].keysPerQuery).toBeGreaterThan(results[0].keysPerQuery);
+
+		const table = format_benchmark(results).split("\n");
+		expect(table).toHaveLength(6);
+		expect(table[2]).toMatch(/^\| 4 \| 32 \| 5 \| /);
+	});
+
+	test("should require a metric with ground truth", async () => {
+		const groundTruth = ground_truth(
+			dataset.base,
+			dataset.queries,
+			5,
+			distance_functions.l2,
+		);
+		await expect(
+			run_benchmark({
+				dataset: { ...dataset, groundTruth },
+				createDb: () => new Memory(),
+			}),
+		).rejects.toThrow("A metric is required with ground truth");
+
+		const [result] = await run_benchmark({
+			dataset: { ...dataset, groundTruth },
+			createDb: () => new Memory(),
+			K: 5,
+			metric: "l2",
+			m: [8],
+			efConstruction: [32],
+			ef: [50],
+		});
+		expect(result.recall).toBeGreaterThan(0.5);
+	});
+
+	test("should refuse a database that is not empty", async () => {
+		const db = new Memory();
+		await db.new_point([1, 2]);
+		await expect(
+			run_benchmark({ dataset, createDb: () => db }),
+		).rejects.toThrow("Benchmark databases must be empty");
+	});
+});
@@ -0,0 +1,122 @@
+import { readFileSync } from "node:fs";
+import { count_reads } from "../src/bench";
+import { CachedDB } from "../src/db/cache";
+import type { DBInterface } from "../src/db/interfaces";
+import { HNSW } from "../src/hnsw";
+import { Memory } from "./db/memory";
+
+type Metadata = { id: number };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("cached database", () => {
+	const N = 200;
+	let points: number[][];
+
+	beforeAll(() => {
+		points = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	/** an index over a cache, and the same index over its base */
+	async function setup(maxEntries?: number) {
+		const base = new Memory<Metadata>();
+		const { db: counted, stats } = count_reads(base);
+		const cache = new CachedDB(counted, { maxEntries });
+		const cached = new HNSW<Metadata>(cache, 5, 64, 20, { seed: 1 });
+		await cached.insertMany(
+			points.slice(0, N),
+			points.slice(0, N).map((_, i) => ({ id: i })),
+		);
+		const direct = new HNSW<Metadata>(base, 5, 64, 20);
+		return { cache, cached, direct, stats };
+	}
+
+	test("should serve repeated searches from memory", async () => {
+		const { cache, cached, direct, stats } = await setup();
+		const q = points[N];
+
+		const first = await cached.knn_search(q, 10);
+		const reads = stats.calls;
+		expect(await cached.knn_search(q, 10)).toEqual(first);
+		expect(stats.calls).toBe(reads);
+		expect(cache.hits).toBeGreaterThan(0);
+		expect(first).toEqual(await direct.knn_search(q, 10));
+	});
+
+	test("should invalidate values changed by writes", async () => {
+		const { cached, direct } = await setup();
+		const q = points[N + 1];
+		await cached.knn_search(q, 10);
+
+		const [closest] = await cached.knn_search(q, 1);
+		await cached.update(closest.id, q, { id: -1 });
+		let res = await cached.knn_search(q, 10);
+		expect(res[0]).toEqual({
+			id: closest.id,
+			distance: 0,
+			metadata: { id: -1 },
+		});
+		expect(res).toEqual(await direct.knn_search(q, 10));
+
+		await cached.delete(closest.id);
+		res = await cached.knn_search(q, 10);
+		expect(res.map((r) => r.id)).not.toContain(closest.id);
+		expect(res).toEqual(await direct.knn_search(q, 10));
+
+		const id = await cached.insert(points[N + 2], { id: N });
+		res = await cached.knn_search(points[N + 2], 1);
+		expect(res[0].id).toBe(id);
+		expect(res).toEqual(await direct.knn_search(points[N + 2], 1));
+	});
+
+	test("should evict the least recently used values", async () => {
+		const { db, stats } = count_reads(new Memory());
+		await db.new_points(points.slice(0, 20));
+		const cache = new CachedDB(db, { maxEntries: 10 });
+
+		await cache.get_points([...Array(20).keys()]);
+		expect(cache.size).toBe(10);
+
+		// the last 10 points are cached, the first ones were evicted
+		stats.calls = 0;
+		await cache.get_point(19);
+		expect(stats.calls).toBe(0);
+		expect(await cache.get_point(0)).toEqual(points[0]);
+		expect(stats.calls).toBe(1);
+	});
+
+	test("should not hand out the cached nodes", async () => {
+		const base = new Memory();
+		await base.new_neighbor(0);
+		await base.upsert_neighbor(0, 0, { 1: 0.5 });
+		const cache = new CachedDB(base);
+
+		const node = await cache.get_neighbor(0, 0);
+		node[2] = 0.25;
+		expect(await cache.get_neighbor(0, 0)).toEqual({ 1: 0.5 });
+		expect(await cache.has_neighbors(0, [0, 1])).toEqual([true, false]);
+	});
+
+	test("should not cache reads that overlap a write", async () => {
+		const base = new Memory();
+		await base.new_point([1, 1]);
+		// reads of points take a while to return
+		const slow = new Proxy(base, {
+			get(target, prop, receiver) {
+				const value = Reflect.get(target, prop, receiver);
+				if (prop !== "get_points") return value;
+				return async (idxs: number[]) => {
+					const result = await target.get_points(idxs);
+					await sleep(20);
+					return result;
+				};
+			},
+		}) as DBInterface;
+		const cache = new CachedDB(slow);
+
+		const read = cache.get_point(0);
+		await cache.set_point(0, [2, 2]);
+		expect(await read).toEqual([1, 1]);
+		expect(await cache.get_point(0)).toEqual([2, 2]);
+	});
+});
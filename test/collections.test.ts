@@ -0,0 +1,123 @@
+import { readFileSync } from "node:fs";
+import { EizenMemory } from "../src/db";
+import type { ValueStore } from "../src/db/interfaces";
+import { HNSW } from "../src/hnsw";
+import { KVClient } from "./db/kvClient";
+
+type Metadata = { id: number };
+type Client = ValueStore<string>;
+
+describe("collections", () => {
+	let points: number[][];
+	let kv: KVClient;
+	let client: Client;
+
+	beforeAll(() => {
+		points = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	beforeEach(() => {
+		kv = new KVClient();
+		client = kv as unknown as Client;
+	});
+
+	test("should create and list collections", async () => {
+		expect(await EizenMemory.list_collections(client)).toEqual([]);
+		await EizenMemory.create_collection(client, "acme");
+		await EizenMemory.create_collection(client, "globex-2");
+		expect(await EizenMemory.list_collections(client)).toEqual([
+			"acme",
+			"globex-2",
+		]);
+
+		await expect(EizenMemory.create_collection(client, "acme")).rejects.toThrow(
+			'Collection "acme" already exists',
+		);
+		await expect(EizenMemory.create_collection(client, "a:b")).rejects.toThrow(
+			'Invalid collection name "a:b"',
+		);
+		expect(() => new EizenMemory(client, { collection: "" })).toThrow(
+			'Invalid collection name ""',
+		);
+	});
+
+	test("should keep indexes of collections apart", async () => {
+		const acme = new HNSW<Metadata>(
+			new EizenMemory(client, { collection: "acme" }),
+			5,
+			64,
+			20,
+		);
+		const globex = new HNSW<Metadata>(
+			new EizenMemory(client, { collection: "globex" }),
+			5,
+			64,
+			20,
+			{ metric: "l2" },
+		);
+		const fallback = new HNSW<Metadata>(new EizenMemory(client), 5, 64, 20);
+
+		await acme.insertMany(
+			points.slice(0, 30),
+			points.slice(0, 30).map((_, i) => ({ id: i })),
+		);
+		await globex.insertMany(
+			points.slice(30, 40),
+			points.slice(30, 40).map((_, i) => ({ id: 30 + i })),
+		);
+
+		const q = points[35];
+		const [fromAcme] = await acme.knn_search(q, 1);
+		const [fromGlobex] = await globex.knn_search(q, 1);
+		expect(fromGlobex.id).toBe(5);
+		expect(fromGlobex.metadata).toEqual({ id: 35 });
+		expect(fromAcme.metadata?.id).toBeLessThan(30);
+		expect(await fallback.knn_search(q, 1)).toEqual([]);
+
+		// unprefixed keys are left to the default collection
+		expect([...kv.values.keys()].every((key) => key.startsWith("c:"))).toBe(
+			true,
+		);
+	});
+
+	test("should drop a collection and all of its values", async () => {
+		await EizenMemory.create_collection(client, "acme");
+		await EizenMemory.create_collection(client, "globex");
+		const acme = new HNSW<Metadata>(
+			new EizenMemory(client, { collection: "acme" }),
+			5,
+			64,
+			20,
+		);
+		const globex = new HNSW<Metadata>(
+			new EizenMemory(client, { collection: "globex" }),
+			5,
+			64,
+			20,
+		);
+		await acme.insertMany(
+			points.slice(0, 50),
+			points.slice(0, 50).map((_, i) => ({ id: i })),
+		);
+		await globex.insertMany(points.slice(0, 10));
+
+		await EizenMemory.drop_collection(client, "acme");
+		expect(await EizenMemory.list_collections(client)).toEqual(["globex"]);
+		for (const [key, value] of kv.values) {
+			if (key.startsWith("c:acme:")) expect(value).toBe("");
+		}
+		expect(await acme.knn_search(points[0], 5)).toEqual([]);
+		expect((await globex.knn_search(points[0], 1))[0].id).toBe(0);
+
+		// a dropped collection can be created again, empty
+		await EizenMemory.create_collection(client, "acme");
+		const id = await acme.insert(points[60], { id: 60 });
+		expect(id).toBe(0);
+		const res = await acme.knn_search(points[60], 5);
+		expect(res.map((r) => [r.id, r.metadata])).toEqual([[0, { id: 60 }]]);
+
+		await expect(
+			EizenMemory.drop_collection(client, "initech"),
+		).rejects.toThrow('Collection "initech" does not exist');
+	});
+});
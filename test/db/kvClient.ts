@@ -0,0 +1,22 @@
+import type { ValueStore } from "../../src/db/interfaces";
+
+/** A mock of the key-value operations of a contract SDK, storing values in JS memory */
+export class KVClient<V = string> implements ValueStore<V> {
+	values = new Map<string, V>();
+
+	async get(key: string): Promise<V | null> {
+		return this.values.get(key) ?? null;
+	}
+
+	async getMany(keys: string[]): Promise<(V | null)[]> {
+		return keys.map((key) => this.values.get(key) ?? null);
+	}
+
+	async set(key: string, value: V): Promise<void> {
+		this.values.set(key, value);
+	}
+
+	async setMany(keys: string[], values: V[]): Promise<void> {
+		keys.forEach((key, i) => this.values.set(key, values[i]));
+	}
+}
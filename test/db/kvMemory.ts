@@ -1,12 +1,14 @@
 import {
 	decodeLayerNode,
 	decodePoint,
+	decodePointQuant,
 	encodeLayerNode,
 	encodePoint,
+	encodePointQuant,
 } from "../../src/codec";
 import { keys, safeParse } from "../../src/db/common";
 import type { DBInterface } from "../../src/db/interfaces";
-import type { Graph, LayerNode, Point } from "../../src/types";
+import type { Graph, IndexConfig, LayerNode, Point } from "../../src/types";
 
 /** A mock DB that stores everything in JS memory; but,
  * - uses a KV interface
@@ -22,6 +24,26 @@ export class KVMemory<M = unknown> implements DBInterface<M> {
 		this.kvdb[keys.ep] = ep.toString();
 	}
 
+	async get_metric(): Promise<string | null> {
+		return this.kvdb[keys.metric] ?? null;
+	}
+
+	async get_config(): Promise<IndexConfig | null> {
+		return safeParse<IndexConfig>(this.kvdb[keys.config]);
+	}
+
+	async set_config(config: IndexConfig): Promise<void> {
+		this.kvdb[keys.config] = JSON.stringify(config);
+	}
+
+	async get_lease(): Promise<string | null> {
+		return this.kvdb[keys.lease] || null;
+	}
+
+	async set_lease(lease: string | null): Promise<void> {
+		this.kvdb[keys.lease] = lease ?? undefined;
+	}
+
 	async get_point(idx: number): Promise<Point> {
 		const data = this.kvdb[keys.point(idx)];
 		if (!data) {
@@ -46,6 +68,62 @@ export class KVMemory<M = unknown> implements DBInterface<M> {
 		return idx;
 	}
 
+	async new_points(qs: Point[]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = qs.map((q, i) => {
+			const idx = datasize + i;
+			this.kvdb[keys.point(idx)] = encodePoint({ v: q, idx });
+			return idx;
+		});
+		this.kvdb[keys.points] = (datasize + qs.length).toString();
+		return idxs;
+	}
+
+	async set_point(idx: number, q: Point): Promise<void> {
+		this.kvdb[keys.point(idx)] = encodePoint({ v: q, idx });
+	}
+
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		idxs.forEach((idx, i) => {
+			this.kvdb[keys.point(idx)] = encodePoint({ v: qs[i], idx });
+		});
+	}
+
+	async new_codes(codes: number[][]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = codes.map((v, i) => {
+			const idx = datasize + i;
+			this.kvdb[keys.codes(idx)] = encodePointQuant({ v, idx });
+			return idx;
+		});
+		this.kvdb[keys.points] = (datasize + codes.length).toString();
+		return idxs;
+	}
+
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		idxs.forEach((idx, i) => {
+			this.kvdb[keys.codes(idx)] = encodePointQuant({ v: codes[i], idx });
+		});
+	}
+
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		return idxs.map((idx) => {
+			const data = this.kvdb[keys.codes(idx)];
+			if (!data) {
+				throw new Error(`No codes for point at index ${idx}`);
+			}
+			return decodePointQuant(data).v ?? [];
+		});
+	}
+
+	async get_quantizer(): Promise<string | null> {
+		return this.kvdb[keys.quantizer] ?? null;
+	}
+
+	async set_quantizer(quantizer: string): Promise<void> {
+		this.kvdb[keys.quantizer] = quantizer;
+	}
+
 	async get_num_layers(): Promise<number> {
 		const data = this.kvdb[keys.layers];
 		return data ? Number.parseInt(data) : 0;
@@ -75,24 +153,36 @@ export class KVMemory<M = unknown> implements DBInterface<M> {
 		return Object.fromEntries(idxs.map((idx, i) => [idx, nodes[i]]));
 	}
 
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		return idxs.map(
+			(idx) => this.kvdb[keys.neighbor(layer, idx)] !== undefined,
+		);
+	}
+
 	async upsert_neighbor(
 		layer: number,
 		idx: number,
 		node: LayerNode,
+		visible = true,
 	): Promise<void> {
 		const data = encodeLayerNode({
 			idx,
 			level: layer,
+			visible,
 			neighbors: node,
 		});
 		this.kvdb[keys.neighbor(layer, idx)] = data;
 	}
 
-	async upsert_neighbors(layer: number, nodes: Graph): Promise<void> {
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted: number[] = [],
+	): Promise<void> {
 		await Promise.all(
 			Object.keys(nodes).map((idx) => {
 				const i = Number.parseInt(idx);
-				return this.upsert_neighbor(layer, i, nodes[i]);
+				return this.upsert_neighbor(layer, i, nodes[i], !deleted.includes(i));
 			}),
 		);
 	}
@@ -106,6 +196,24 @@ export class KVMemory<M = unknown> implements DBInterface<M> {
 		this.kvdb[keys.layers] = (l + 1).toString();
 	}
 
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		const nodes = await Promise.all(
+			idxs.map(async (idx) => {
+				const data = this.kvdb[keys.neighbor(0, idx)];
+				if (!data) {
+					throw new Error(`No neighbors at layer 0, index ${idx}`);
+				}
+				return decodeLayerNode(data);
+			}),
+		);
+		return nodes.map((node) => node.visible === true);
+	}
+
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		const node = await this.get_neighbor(0, idx);
+		await this.upsert_neighbor(0, idx, node, visible);
+	}
+
 	async get_metadata(idx: number): Promise<M | null> {
 		const data = this.kvdb[keys.metadata(idx)];
 		return safeParse<M>(data);
@@ -121,6 +229,12 @@ export class KVMemory<M = unknown> implements DBInterface<M> {
 		this.kvdb[keys.metadata(idx)] = JSON.stringify(data);
 	}
 
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		idxs.forEach((idx, i) => {
+			this.kvdb[keys.metadata(idx)] = JSON.stringify(datas[i]);
+		});
+	}
+
 	toString() {
 		return "Mock KV Memory with Protobufs";
 	}
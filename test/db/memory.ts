@@ -1,5 +1,5 @@
 import type { DBInterface } from "../../src/db/interfaces";
-import type { Graph, LayerNode, Point } from "../../src/types";
+import type { Graph, IndexConfig, LayerNode, Point } from "../../src/types";
 
 /**
  * A mock DB that stores everything in JS memory.
@@ -7,9 +7,15 @@ import type { Graph, LayerNode, Point } from "../../src/types";
  */
 export class Memory<M = unknown> implements DBInterface<M> {
 	private points: Point[] = [];
+	private codes: number[][] = [];
+	private quantizer: string | null = null;
 	private metadatas: (M | null)[] = [];
 	private graphs: Graph[] = [];
+	private deleted = new Set<number>();
 	private ep: number | null = null;
+	private metric: string | null = null;
+	private config: IndexConfig | null = null;
+	private lease: string | null = null;
 
 	async get_ep(): Promise<number | null> {
 		return this.ep;
@@ -19,6 +25,26 @@ export class Memory<M = unknown> implements DBInterface<M> {
 		this.ep = ep;
 	}
 
+	async get_metric(): Promise<string | null> {
+		return this.metric;
+	}
+
+	async get_config(): Promise<IndexConfig | null> {
+		return this.config;
+	}
+
+	async set_config(config: IndexConfig): Promise<void> {
+		this.config = config;
+	}
+
+	async get_lease(): Promise<string | null> {
+		return this.lease;
+	}
+
+	async set_lease(lease: string | null): Promise<void> {
+		this.lease = lease;
+	}
+
 	async get_point(idx: number): Promise<Point> {
 		return this.points[idx];
 	}
@@ -32,6 +58,46 @@ export class Memory<M = unknown> implements DBInterface<M> {
 		return this.points.length - 1;
 	}
 
+	async new_points(qs: Point[]): Promise<number[]> {
+		return qs.map((q) => this.points.push(q) - 1);
+	}
+
+	async set_point(idx: number, q: Point): Promise<void> {
+		this.points[idx] = q;
+	}
+
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		idxs.forEach((idx, i) => {
+			this.points[idx] = qs[i];
+		});
+	}
+
+	async new_codes(codes: number[][]): Promise<number[]> {
+		return codes.map((v) => {
+			const idx = this.points.push([]) - 1;
+			this.codes[idx] = v;
+			return idx;
+		});
+	}
+
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		idxs.forEach((idx, i) => {
+			this.codes[idx] = codes[i];
+		});
+	}
+
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		return idxs.map((idx) => this.codes[idx]);
+	}
+
+	async get_quantizer(): Promise<string | null> {
+		return this.quantizer;
+	}
+
+	async set_quantizer(quantizer: string): Promise<void> {
+		this.quantizer = quantizer;
+	}
+
 	async get_num_layers(): Promise<number> {
 		return this.graphs.length;
 	}
@@ -50,18 +116,30 @@ export class Memory<M = unknown> implements DBInterface<M> {
 		);
 	}
 
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		return idxs.map((idx) => this.graphs[layer]?.[idx] !== undefined);
+	}
+
 	async upsert_neighbor(
 		layer: number,
 		idx: number,
 		node: LayerNode,
+		visible = true,
 	): Promise<void> {
 		this.graphs[layer][idx] = node;
+		if (layer === 0) {
+			await this.set_visibility(idx, visible);
+		}
 	}
 
-	async upsert_neighbors(layer: number, nodes: Graph): Promise<void> {
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted: number[] = [],
+	): Promise<void> {
 		for (const idx of Object.keys(nodes)) {
 			const i = Number.parseInt(idx);
-			this.graphs[layer][i] = nodes[i];
+			await this.upsert_neighbor(layer, i, nodes[i], !deleted.includes(i));
 		}
 	}
 
@@ -69,6 +147,18 @@ export class Memory<M = unknown> implements DBInterface<M> {
 		this.graphs.push({ [idx]: {} });
 	}
 
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		return idxs.map((idx) => !this.deleted.has(idx));
+	}
+
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		if (visible) {
+			this.deleted.delete(idx);
+		} else {
+			this.deleted.add(idx);
+		}
+	}
+
 	async get_metadata(idx: number): Promise<M | null> {
 		return this.metadatas[idx];
 	}
@@ -81,6 +171,12 @@ export class Memory<M = unknown> implements DBInterface<M> {
 		this.metadatas[idx] = data;
 	}
 
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		idxs.forEach((idx, i) => {
+			this.metadatas[idx] = datas[i];
+		});
+	}
+
 	toString() {
 		return "Mock Memory";
 	}
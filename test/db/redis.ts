@@ -2,12 +2,14 @@ import type { Redis } from "ioredis";
 import {
 	decodeLayerNode,
 	decodePoint,
+	decodePointQuant,
 	encodeLayerNode,
 	encodePoint,
+	encodePointQuant,
 } from "../../src/codec";
 import { keys, safeParse } from "../../src/db/common";
 import type { DBInterface } from "../../src/db/interfaces";
-import type { Graph, LayerNode, Point } from "../../src/types";
+import type { Graph, IndexConfig, LayerNode, Point } from "../../src/types";
 
 export class RedisMemory<M = unknown> implements DBInterface<M> {
 	client: Redis;
@@ -25,6 +27,30 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 		await this.client.set(keys.ep, ep.toString());
 	}
 
+	async get_metric(): Promise<string | null> {
+		return await this.client.get(keys.metric);
+	}
+
+	async get_config(): Promise<IndexConfig | null> {
+		return safeParse<IndexConfig>(await this.client.get(keys.config));
+	}
+
+	async set_config(config: IndexConfig): Promise<void> {
+		await this.client.set(keys.config, JSON.stringify(config));
+	}
+
+	async get_lease(): Promise<string | null> {
+		return this.client.get(keys.lease);
+	}
+
+	async set_lease(lease: string | null): Promise<void> {
+		if (lease === null) {
+			await this.client.del(keys.lease);
+		} else {
+			await this.client.set(keys.lease, lease);
+		}
+	}
+
 	async get_point(idx: number): Promise<Point> {
 		const data = await this.client.get(keys.point(idx));
 		if (!data) {
@@ -70,6 +96,77 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 		return idx;
 	}
 
+	async new_points(qs: Point[]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = qs.map((_, i) => datasize + i);
+		await this.client.mset([
+			...idxs.flatMap((idx, i) => [
+				keys.point(idx),
+				encodePoint({ v: qs[i], idx }),
+			]),
+			keys.points,
+			(datasize + qs.length).toString(),
+		]);
+		return idxs;
+	}
+
+	async set_point(idx: number, q: Point): Promise<void> {
+		await this.client.set(keys.point(idx), encodePoint({ v: q, idx }));
+	}
+
+	async set_points(idxs: number[], qs: Point[]): Promise<void> {
+		if (idxs.length === 0) return;
+		await this.client.mset(
+			idxs.flatMap((idx, i) => [
+				keys.point(idx),
+				encodePoint({ v: qs[i], idx }),
+			]),
+		);
+	}
+
+	async new_codes(codes: number[][]): Promise<number[]> {
+		const datasize = await this.get_datasize();
+		const idxs = codes.map((_, i) => datasize + i);
+		await this.client.mset([
+			...idxs.flatMap((idx, i) => [
+				keys.codes(idx),
+				encodePointQuant({ v: codes[i], idx }),
+			]),
+			keys.points,
+			(datasize + codes.length).toString(),
+		]);
+		return idxs;
+	}
+
+	async set_codes(idxs: number[], codes: number[][]): Promise<void> {
+		if (idxs.length === 0) return;
+		await this.client.mset(
+			idxs.flatMap((idx, i) => [
+				keys.codes(idx),
+				encodePointQuant({ v: codes[i], idx }),
+			]),
+		);
+	}
+
+	async get_codes(idxs: number[]): Promise<number[][]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.client.mget(idxs.map((idx) => keys.codes(idx)));
+		return datas.map((data, i) => {
+			if (data === null) {
+				throw new Error(`No codes for point at index ${idxs[i]}`);
+			}
+			return decodePointQuant(data).v ?? [];
+		});
+	}
+
+	async get_quantizer(): Promise<string | null> {
+		return this.client.get(keys.quantizer);
+	}
+
+	async set_quantizer(quantizer: string): Promise<void> {
+		await this.client.set(keys.quantizer, quantizer);
+	}
+
 	async get_num_layers(): Promise<number> {
 		const numLayers = await this.client.get(keys.layers);
 		return numLayers ? Number.parseInt(numLayers) : 0;
@@ -126,20 +223,34 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 		return Object.fromEntries(idxs.map((idx, i) => [idx, neighbors[i]]));
 	}
 
+	async has_neighbors(layer: number, idxs: number[]): Promise<boolean[]> {
+		if (idxs.length === 0) return [];
+		const datas = await this.client.mget(
+			idxs.map((idx) => keys.neighbor(layer, idx)),
+		);
+		return datas.map((data) => data !== null);
+	}
+
 	async upsert_neighbor(
 		layer: number,
 		idx: number,
 		node: LayerNode,
+		visible = true,
 	): Promise<void> {
 		const data = encodeLayerNode({
 			idx,
 			level: layer,
+			visible,
 			neighbors: node,
 		});
 		await this.client.set(keys.neighbor(layer, idx), data);
 	}
 
-	async upsert_neighbors(layer: number, nodes: Graph): Promise<void> {
+	async upsert_neighbors(
+		layer: number,
+		nodes: Graph,
+		deleted: number[] = [],
+	): Promise<void> {
 		await this.client.mset(
 			Object.keys(nodes).flatMap((idx) => {
 				const i = Number.parseInt(idx);
@@ -147,6 +258,7 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 				const value = encodeLayerNode({
 					idx: i,
 					level: layer,
+					visible: !deleted.includes(i),
 					neighbors: nodes[i],
 				});
 
@@ -157,7 +269,7 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 		await Promise.all(
 			Object.keys(nodes).map((idx) => {
 				const i = Number.parseInt(idx);
-				return this.upsert_neighbor(layer, i, nodes[i]);
+				return this.upsert_neighbor(layer, i, nodes[i], !deleted.includes(i));
 			}),
 		);
 	}
@@ -171,6 +283,24 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 		await this.client.set(keys.layers, (l + 1).toString());
 	}
 
+	async get_visibilities(idxs: number[]): Promise<boolean[]> {
+		const nodes = await Promise.all(
+			idxs.map(async (idx) => {
+				const data = await this.client.get(keys.neighbor(0, idx));
+				if (!data) {
+					throw new Error(`No neighbors at layer 0, index ${idx}`);
+				}
+				return decodeLayerNode(data);
+			}),
+		);
+		return nodes.map((node) => node.visible === true);
+	}
+
+	async set_visibility(idx: number, visible: boolean): Promise<void> {
+		const node = await this.get_neighbor(0, idx);
+		await this.upsert_neighbor(0, idx, node, visible);
+	}
+
 	async get_metadata(idx: number): Promise<M | null> {
 		const data = await this.client.get(keys.metadata(idx));
 		return safeParse<M>(data);
@@ -186,6 +316,13 @@ export class RedisMemory<M = unknown> implements DBInterface<M> {
 		await this.client.set(keys.metadata(idx), JSON.stringify(data));
 	}
 
+	async set_metadatas(idxs: number[], datas: M[]): Promise<void> {
+		if (idxs.length === 0) return;
+		await this.client.mset(
+			idxs.flatMap((idx, i) => [keys.metadata(idx), JSON.stringify(datas[i])]),
+		);
+	}
+
 	toString() {
 		return "Redis with Protobufs";
 	}
@@ -2,7 +2,16 @@
 
 import { readFileSync } from "node:fs";
 import { Redis } from "ioredis";
+import type { DBInterface } from "../src/db/interfaces";
+import { LoaderMemory } from "../src/db/loader";
+import { LeaseLock } from "../src/db/lock";
 import { HNSW } from "../src/hnsw";
+import type { IntegrityIssue } from "../src/types";
+import {
+	distance_functions,
+	matches_filter,
+	seeded_random,
+} from "../src/utils";
 import { testcases } from "./data";
 import { KVMemory } from "./db/kvMemory";
 import { Memory } from "./db/memory";
@@ -70,3 +79,1495 @@ describe("HNSW", () => {
 		}),
 	);
 });
+
+describe("HNSW distance metrics", () => {
+	const N = 200;
+	const K = 10;
+	let train: number[][];
+	let metadatas: Metadata[];
+
+	beforeAll(() => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		metadatas = train.map((_, i) => ({ id: i }));
+	});
+
+	(["cosine", "l2", "inner_product"] as const).map((metric) =>
+		test(`should search with ${metric} distances`, async () => {
+			const hnsw = new HNSW<Metadata>(new KVMemory(), 5, 128, 20, { metric });
+			for (let i = 0; i < N; i++) {
+				await hnsw.insert(train[i], metadatas[i]);
+			}
+			expect((await hnsw.db.get_config())?.metric).toBe(metric);
+
+			const res = await hnsw.knn_search(train[7], K);
+			expect(res.length).toBe(K);
+			for (let i = 0; i < K; i++) {
+				const { point } = await hnsw.get_vector(res[i].id);
+				expect(res[i].distance).toBeCloseTo(
+					distance_functions[metric](point, train[7]),
+				);
+				if (i > 0) {
+					expect(res[i].distance).toBeGreaterThanOrEqual(res[i - 1].distance);
+				}
+			}
+		}),
+	);
+
+	test("should use l2 distances", async () => {
+		const hnsw = new HNSW(new Memory(), 5, 128, 20, { metric: "l2" });
+		await hnsw.insert([0, 0]);
+		await hnsw.insert([3, 4]);
+		const res = await hnsw.knn_search([0, 0], 2);
+		expect(res.map((r) => r.distance)).toEqual([0, 5]);
+	});
+
+	test("should accept a named custom metric", async () => {
+		const manhattan = {
+			name: "manhattan",
+			distance: (a: number[], b: number[]) =>
+				a.reduce((sum, val, idx) => sum + Math.abs(val - b[idx]), 0),
+		};
+		const db = new Memory();
+		const hnsw = new HNSW(db, 5, 128, 20, { metric: manhattan });
+		await hnsw.insert([0, 0]);
+		await hnsw.insert([3, 4]);
+		expect((await db.get_config())?.metric).toBe("manhattan");
+		const res = await hnsw.knn_search([0, 0], 2);
+		expect(res.map((r) => r.distance)).toEqual([0, 7]);
+	});
+
+	test("should reject reopening an index with a different metric", async () => {
+		const db = new KVMemory();
+		await new HNSW(db, 5, 128, 20, { metric: "l2" }).insert([1, 2, 3]);
+
+		const reopened = new HNSW(db, 5, 128, 20, { metric: "cosine" });
+		await expect(reopened.insert([3, 2, 1])).rejects.toThrow(/"l2" metric/);
+		await expect(reopened.knn_search([3, 2, 1], 1)).rejects.toThrow(
+			/"l2" metric/,
+		);
+
+		// same metric is fine
+		const same = new HNSW(db, 5, 128, 20, { metric: "l2" });
+		expect(await same.knn_search([1, 2, 3], 1)).toHaveLength(1);
+	});
+
+	test("should check the metric on the first operation of any kind", async () => {
+		const db = new KVMemory();
+		await new HNSW(db, 5, 128, 20, { metric: "l2" }).insert([1, 2, 3]);
+
+		const error = /"l2" metric/;
+		await expect(new HNSW(db, 5, 128, 20).delete(0)).rejects.toThrow(error);
+		await expect(new HNSW(db, 5, 128, 20).get_vector(0)).rejects.toThrow(error);
+		await expect(new HNSW(db, 5, 128, 20).verify()).rejects.toThrow(error);
+		await expect(new HNSW(db, 5, 128, 20).sample_points(1)).rejects.toThrow(
+			error,
+		);
+		expect(
+			(await new HNSW(db, 5, 128, 20, { metric: "l2" }).verify()).issues,
+		).toEqual([]);
+	});
+
+	test("should treat legacy indexes without a stored metric as cosine", async () => {
+		const db = new KVMemory();
+		await new HNSW(db, 5, 128, 20).insert([1, 2, 3]);
+		// simulate an index created before metrics were stored
+		(
+			db as unknown as { kvdb: Record<string, string | undefined> }
+		).kvdb.config = undefined;
+
+		await expect(
+			new HNSW(db, 5, 128, 20, { metric: "l2" }).knn_search([1, 2, 3], 1),
+		).rejects.toThrow(/"cosine" metric/);
+		expect(
+			await new HNSW(db, 5, 128, 20).knn_search([1, 2, 3], 1),
+		).toHaveLength(1);
+	});
+
+	test("should read the metric that legacy indexes stored on their own", async () => {
+		const db = new KVMemory();
+		await new HNSW(db, 5, 128, 20, { metric: "l2" }).insert([1, 2, 3]);
+		// simulate an index that stored its metric next to its configuration
+		const { kvdb } = db as unknown as {
+			kvdb: Record<string, string | undefined>;
+		};
+		kvdb.metric = "l2";
+		kvdb.config = JSON.stringify({ dimension: 3, m: 5, efConstruction: 128 });
+
+		await expect(
+			new HNSW(db, 5, 128, 20).knn_search([1, 2, 3], 1),
+		).rejects.toThrow(/"l2" metric/);
+
+		// the metric is folded into the configuration on the next write
+		await new HNSW(db, 5, 128, 20, { metric: "l2" }).insert([3, 2, 1]);
+		expect(await db.get_config()).toEqual({
+			metric: "l2",
+			dimension: 3,
+			m: 5,
+			efConstruction: 128,
+		});
+	});
+
+	test("should reject custom metrics named like a built-in metric", async () => {
+		const db = new Memory();
+		const manhattan = (a: number[], b: number[]) =>
+			a.reduce((sum, val, idx) => sum + Math.abs(val - b[idx]), 0);
+		for (const name of ["cosine", "l2", "inner_product"]) {
+			expect(
+				() =>
+					new HNSW(db, 5, 128, 20, {
+						metric: { name, distance: manhattan },
+					}),
+			).toThrow(
+				`Custom metric "${name}" cannot use the name of a built-in metric`,
+			);
+		}
+
+		// the built-in function under its own name is the built-in metric
+		const hnsw = new HNSW(db, 5, 128, 20, {
+			metric: { name: "l2", distance: distance_functions.l2 },
+		});
+		await hnsw.insert([0, 0]);
+		expect(
+			await new HNSW(db, 5, 128, 20, { metric: "l2" }).knn_search([3, 4], 1),
+		).toEqual([{ id: 0, distance: 5, metadata: null }]);
+	});
+
+	test("should reject unknown metric names", () => {
+		expect(
+			() =>
+				new HNSW(new Memory(), 5, 128, 20, {
+					metric: "hamming" as "cosine",
+				}),
+		).toThrow(/Unknown distance metric/);
+	});
+});
+
+describe("HNSW index configuration", () => {
+	test("should store the configuration on the first insert", async () => {
+		const db = new KVMemory();
+		const hnsw = new HNSW(db, 8, 64, 20);
+		expect(await hnsw.knn_search([1, 2, 3], 1)).toEqual([]);
+		expect(await db.get_config()).toBeNull();
+
+		await hnsw.insert([1, 2, 3]);
+		expect(await db.get_config()).toEqual({
+			metric: "cosine",
+			dimension: 3,
+			m: 8,
+			efConstruction: 64,
+		});
+
+		// batches store it as well
+		const batched = new Memory();
+		await new HNSW(batched, 5, 32, 20).insertMany([
+			[1, 2],
+			[3, 4],
+		]);
+		expect(await batched.get_config()).toEqual({
+			metric: "cosine",
+			dimension: 2,
+			m: 5,
+			efConstruction: 32,
+		});
+	});
+
+	test("should reject vectors of the wrong dimension", async () => {
+		const hnsw = new HNSW(new Memory(), 5, 128, 20);
+		await hnsw.insert([1, 2, 3]);
+
+		const error = "Expected a vector of dimension 3, got 2";
+		await expect(hnsw.insert([1, 2])).rejects.toThrow(error);
+		await expect(
+			hnsw.insertMany([
+				[4, 5, 6],
+				[1, 2],
+			]),
+		).rejects.toThrow(error);
+		await expect(hnsw.update(0, [1, 2])).rejects.toThrow(error);
+		await expect(hnsw.knn_search([1, 2], 1)).rejects.toThrow(error);
+		await expect(hnsw.flat_search([1, 2], 1)).rejects.toThrow(error);
+		await expect(hnsw.range_search([1, 2], 1)).rejects.toThrow(error);
+		await expect(hnsw.insert([])).rejects.toThrow(
+			"Vectors must have at least one dimension",
+		);
+
+		// reopened indexes check against the stored configuration
+		const reopened = new HNSW(hnsw.db, 5, 128, 20);
+		await expect(reopened.knn_search([1, 2, 3, 4], 1)).rejects.toThrow(
+			"Expected a vector of dimension 3, got 4",
+		);
+		expect(await reopened.knn_search([1, 2, 3], 1)).toHaveLength(1);
+	});
+
+	test("should reject writes with a different m", async () => {
+		const db = new Memory();
+		await new HNSW(db, 5, 128, 20).insert([1, 2, 3]);
+
+		const reopened = new HNSW(db, 16, 200, 20);
+		await expect(reopened.insert([3, 2, 1])).rejects.toThrow(
+			"Index was built with m = 5, but m = 16 was requested",
+		);
+		expect(await reopened.knn_search([1, 2, 3], 1)).toHaveLength(1);
+		await expect(reopened.delete(0)).rejects.toThrow(
+			"Index was built with m = 5, but m = 16 was requested",
+		);
+		// ef_construction may change
+		expect(await new HNSW(db, 5, 200, 20).insert([3, 2, 1])).toBe(1);
+	});
+
+	test("should store the configuration of legacy indexes on their next write", async () => {
+		const db = new KVMemory();
+		await new HNSW(db, 5, 128, 20).insert([1, 2, 3]);
+		// simulate an index created before configurations were stored
+		(
+			db as unknown as { kvdb: Record<string, string | undefined> }
+		).kvdb.config = undefined;
+
+		const hnsw = new HNSW(db, 5, 128, 20);
+		await expect(hnsw.knn_search([1, 2], 1)).rejects.toThrow(
+			"Expected a vector of dimension 3, got 2",
+		);
+		expect(await db.get_config()).toBeNull();
+
+		await hnsw.insert([3, 2, 1]);
+		expect(await db.get_config()).toEqual({
+			metric: "cosine",
+			dimension: 3,
+			m: 5,
+			efConstruction: 128,
+		});
+	});
+
+	test("should reject distances between vectors of different dimensions", () => {
+		for (const distance of Object.values(distance_functions)) {
+			expect(() => distance([1, 2, 3], [1, 2])).toThrow(
+				"Vectors have different dimensions: 3 and 2",
+			);
+		}
+	});
+});
+
+describe("HNSW deletion", () => {
+	const N = 300;
+	const K = 10;
+	let train: number[][];
+
+	beforeAll(() => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	[new KVMemory<Metadata>(), new Memory<Metadata>()].map((db) =>
+		describe(`${db}`, () => {
+			const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+			let deleted: number[];
+
+			test("insert", async () => {
+				for (let i = 0; i < N; i++) {
+					await hnsw.insert(train[i], { id: i });
+				}
+			});
+
+			test("should not return deleted points", async () => {
+				const before = await hnsw.knn_search(train[0], K);
+				deleted = before.slice(0, 3).map((r) => r.id);
+				for (const idx of deleted) {
+					await hnsw.delete(idx);
+				}
+
+				const after = await hnsw.knn_search(train[0], K);
+				expect(after.length).toBe(K);
+				for (const r of after) {
+					expect(deleted).not.toContain(r.id);
+				}
+				// remaining results are still found, routing through deleted points
+				for (const r of before.slice(3)) {
+					expect(after.map((a) => a.id)).toContain(r.id);
+				}
+			});
+
+			test("should keep tombstones when neighbors are rewritten", async () => {
+				// inserting near-duplicates of deleted points links them to these points
+				for (const idx of deleted) {
+					await hnsw.insert(
+						train[idx].map((v) => v * 1.01),
+						{ id: -1 },
+					);
+				}
+				expect(await db.get_visibilities(deleted)).toEqual([
+					false,
+					false,
+					false,
+				]);
+
+				const res = await hnsw.knn_search(train[0], K);
+				for (const r of res) {
+					expect(deleted).not.toContain(r.id);
+				}
+			});
+
+			test("should reject unknown indices", async () => {
+				await expect(hnsw.delete(N + 100)).rejects.toThrow(/No point/);
+				await expect(hnsw.delete(-1)).rejects.toThrow(/No point/);
+			});
+		}),
+	);
+});
+
+describe("HNSW update", () => {
+	const N = 300;
+	let train: number[][];
+	const db = new KVMemory<Metadata>();
+	const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		for (let i = 0; i < N; i++) {
+			await hnsw.insert(train[i], { id: i });
+		}
+	});
+
+	test("should replace the vector and metadata in place", async () => {
+		await hnsw.update(5, train[1500], { id: 1500 });
+
+		expect(await db.get_datasize()).toBe(N);
+		const { point, metadata } = await hnsw.get_vector(5);
+		for (let i = 0; i < point.length; i++) {
+			expect(point[i]).toBeCloseTo(train[1500][i]);
+		}
+		expect(metadata).toEqual({ id: 1500 });
+	});
+
+	test("should find the point by its new vector only", async () => {
+		const res = await hnsw.knn_search(train[1500], 10);
+		expect(res[0].id).toBe(5);
+		expect(res[0].distance).toBeCloseTo(0);
+
+		const stale = await hnsw.knn_search(train[5], 10);
+		for (const r of stale) {
+			expect(r.distance).toBeGreaterThan(1e-6);
+		}
+	});
+
+	test("should repair the edges of the point and its neighbors", async () => {
+		const L = await db.get_num_layers();
+		for (let l = 0; l < L; l++) {
+			const [exists] = await db.has_neighbors(l, [5]);
+			if (!exists) break;
+
+			const node = await db.get_neighbor(l, 5);
+			const ids = Object.keys(node).map((k) => Number.parseInt(k));
+			const points = await db.get_points(ids);
+			const graph = await db.get_neighbors(l, ids);
+			ids.forEach((id, i) => {
+				const dist = hnsw.distance(train[1500], points[i]);
+				expect(node[id]).toBeCloseTo(dist, 5);
+				if (5 in graph[id]) {
+					expect(graph[id][5]).toBeCloseTo(dist, 5);
+				}
+			});
+		}
+	});
+
+	test("should measure all edges towards the point again", async () => {
+		/** edges towards a point on a layer, by the node they start from */
+		const edgesTo = async (l: number, idx: number) => {
+			const ids = Array.from({ length: N }, (_, i) => i);
+			const exists = await db.has_neighbors(l, ids);
+			const graph = await db.get_neighbors(
+				l,
+				ids.filter((_, i) => exists[i]),
+			);
+			return Object.entries(graph)
+				.filter(([, node]) => idx in node)
+				.map(([key, node]) => [Number.parseInt(key), node[idx]]);
+		};
+
+		// a point with one-directional edges towards it, as pruning leaves them
+		let idx = 10;
+		let node = await db.get_neighbor(0, idx);
+		while ((await edgesTo(0, idx)).every(([from]) => from in node)) {
+			node = await db.get_neighbor(0, ++idx);
+		}
+
+		await hnsw.update(idx, train[1700]);
+		for (let l = 0; l < (await db.get_num_layers()); l++) {
+			for (const [from, dist] of await edgesTo(l, idx)) {
+				const { point } = await hnsw.get_vector(from);
+				expect(dist).toBeCloseTo(hnsw.distance(train[1700], point), 5);
+			}
+		}
+	});
+
+	test("should keep deleted points deleted", async () => {
+		await hnsw.delete(8);
+		await hnsw.update(8, train[1600]);
+		expect(await db.get_visibilities([8])).toEqual([false]);
+		const res = await hnsw.knn_search(train[1600], 10);
+		expect(res.map((r) => r.id)).not.toContain(8);
+	});
+
+	test("should reject unknown indices", async () => {
+		await expect(hnsw.update(N, train[0])).rejects.toThrow(/No point/);
+	});
+});
+
+describe("HNSW neighbor selection heuristic", () => {
+	test("should skip candidates covered by a selected neighbor", async () => {
+		const db = new Memory();
+		const hnsw = new HNSW(db, 2, 128, 20, { metric: "l2" });
+		for (const p of [
+			[1, 0], // 0: closest to query
+			[1.1, 0], // 1: closer to 0 than to the query
+			[0, 1.5], // 2: in another direction
+		]) {
+			await db.new_point(p);
+		}
+
+		const C: [number, number][] = [
+			[1, 0],
+			[1.1, 1],
+			[1.5, 2],
+		];
+		const q = [0, 0];
+		expect(
+			await hnsw.select_neighbors_heuristic(q, C, 1, false, false),
+		).toEqual([
+			[1, 0],
+			[1.5, 2],
+		]);
+		// the simple selection just takes the closest ones
+		expect(
+			(await hnsw.select_neighbors(q, C, 1, true)).sort((a, b) => a[0] - b[0]),
+		).toEqual([
+			[1, 0],
+			[1.1, 1],
+		]);
+		// discarded candidates fill up the remaining slots if kept
+		const kept = await hnsw.select_neighbors_heuristic(
+			q,
+			C.slice(0, 2),
+			1,
+			false,
+			true,
+		);
+		expect(kept).toEqual([
+			[1, 0],
+			[1.1, 1],
+		]);
+	});
+
+	test("should measure compact candidates in the simple selection", async () => {
+		const db = new Memory();
+		const hnsw = new HNSW(db, 2, 128, 20, { metric: "l2" });
+		for (const p of [
+			[3, 0],
+			[1, 0],
+			[0, 2],
+		]) {
+			await db.new_point(p);
+		}
+
+		// compact nodes are stored without distances
+		const C: [number, number][] = [
+			[Number.NaN, 0],
+			[Number.NaN, 1],
+			[Number.NaN, 2],
+		];
+		const selected = await hnsw.select_neighbors([0, 0], C, 1, true);
+		expect(selected.sort((a, b) => a[0] - b[0])).toEqual([
+			[1, 1],
+			[2, 2],
+		]);
+	});
+
+	test("should improve recall on clustered data", async () => {
+		const N = 300;
+		const train: number[][] = JSON.parse(
+			readFileSync("./test/data/data.json", "utf-8"),
+		);
+
+		const recalls: Record<string, number> = {};
+		for (const neighborSelection of ["simple", "heuristic"] as const) {
+			const hnsw = new HNSW(new KVMemory(), 5, 128, 20, {
+				metric: "l2",
+				neighborSelection,
+			});
+			for (let i = 0; i < N; i++) {
+				await hnsw.insert(train[i]);
+			}
+
+			let hits = 0;
+			for (let i = 0; i < N; i++) {
+				const [res] = await hnsw.knn_search(train[i], 1);
+				if (res.id === i) hits++;
+			}
+			recalls[neighborSelection] = hits / N;
+		}
+
+		expect(recalls.heuristic).toBeGreaterThan(recalls.simple);
+		expect(recalls.heuristic).toBeGreaterThan(0.95);
+	});
+
+	test("should build a searchable graph with extended candidates", async () => {
+		const train: number[][] = JSON.parse(
+			readFileSync("./test/data/data.json", "utf-8"),
+		);
+		const hnsw = new HNSW(new KVMemory(), 5, 128, 20, {
+			neighborSelection: "heuristic",
+			extendCandidates: true,
+		});
+		for (let i = 0; i < 100; i++) {
+			await hnsw.insert(train[i]);
+		}
+		const res = await hnsw.knn_search(train[42], 10);
+		expect(res.length).toBe(10);
+		expect(res[0].id).toBe(42);
+	});
+
+	/** prunes point 0 with extended candidates, reaching the `extra` points through point 1 */
+	async function prune(metric: "l2" | "inner_product", extra: number[][]) {
+		const db = new Memory();
+		const hnsw = new HNSW(db, 2, 128, 20, { metric });
+		for (const p of [[2, 0], [0, 1], ...extra]) {
+			await db.new_point(p);
+		}
+		// point 1 is connected to the pruned point 0 and to the extra points
+		await db.new_neighbor(1);
+		await db.new_neighbor(1);
+		await db.upsert_neighbor(1, 1, { 0: 0, 2: 0, 3: 0 });
+		const q = [2, 0];
+		return hnsw.select_neighbors_heuristic(
+			q,
+			[[hnsw.distance(q, [0, 1]), 1]],
+			1,
+			true,
+			true,
+			0,
+		);
+	}
+
+	test("should extend candidates with duplicates of the point", async () => {
+		const selected = await prune("l2", [
+			[2, 0], // 2: same vector as the point
+			[-1, 0], // 3: further than 1
+		]);
+		expect(selected).toEqual([
+			[0, 2],
+			[Math.sqrt(5), 1],
+		]);
+	});
+
+	test("should extend candidates with negative inner products", async () => {
+		const selected = await prune("inner_product", [
+			[3, 0], // 2: distance 1 - 6
+			[-1, 0], // 3: distance 1 + 2
+		]);
+		expect(selected).toEqual([
+			[-5, 2],
+			[1, 1],
+		]);
+	});
+});
+
+describe("HNSW filtered search", () => {
+	type TenantMetadata = { id: number; tenant: string; year: number };
+
+	const N = 500;
+	const K = 10;
+	let train: number[][];
+	const hnsw = new HNSW<TenantMetadata>(new KVMemory(), 5, 128, 20);
+
+	/** exact top-K among matching points, for comparison */
+	const bruteForce = (q: number[], match: (i: number) => boolean) =>
+		train
+			.slice(0, N)
+			.map((p, i) => [hnsw.distance(q, p), i] as [number, number])
+			.filter(([, i]) => match(i))
+			.sort((a, b) => a[0] - b[0])
+			.slice(0, K)
+			.map(([, i]) => i);
+
+	const tenantOf = (i: number) => (i % 25 === 0 ? "small" : "large");
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		for (let i = 0; i < N; i++) {
+			await hnsw.insert(train[i], {
+				id: i,
+				tenant: tenantOf(i),
+				year: 2000 + (i % 30),
+			});
+		}
+	});
+
+	test("should return K results of a small tenant", async () => {
+		const res = await hnsw.knn_search(train[1], K, {
+			filter: { tenant: "small" },
+		});
+		expect(res.length).toBe(K);
+		for (const r of res) {
+			expect(r.metadata?.tenant).toBe("small");
+		}
+
+		const expected = bruteForce(train[1], (i) => tenantOf(i) === "small");
+		const hits = res.filter((r) => expected.includes(r.id)).length;
+		expect(hits / K).toBeGreaterThanOrEqual(0.8);
+	});
+
+	test("should support predicates", async () => {
+		const res = await hnsw.knn_search(train[1], K, {
+			filter: (metadata, id) => metadata !== null && id % 2 === 1,
+		});
+		expect(res.length).toBe(K);
+		for (const r of res) {
+			expect(r.id % 2).toBe(1);
+		}
+	});
+
+	test("should support operators", async () => {
+		const res = await hnsw.knn_search(train[3], K, {
+			filter: {
+				year: { $gte: 2010, $lt: 2015 },
+				tenant: { $in: ["large"] },
+				id: { $ne: 3 },
+			},
+		});
+		expect(res.length).toBe(K);
+		for (const r of res) {
+			expect(r.metadata?.year).toBeGreaterThanOrEqual(2010);
+			expect(r.metadata?.year).toBeLessThan(2015);
+			expect(r.metadata?.tenant).toBe("large");
+			expect(r.id).not.toBe(3);
+		}
+	});
+
+	test("should only filter points that can be results", async () => {
+		const visited = new Set<number>();
+		const filtered: number[] = [];
+		const db = hnsw.db;
+		const get_neighbor = db.get_neighbor.bind(db);
+		const spy = vi
+			.spyOn(db, "get_neighbor")
+			.mockImplementation(async (layer, idx) => {
+				const node = await get_neighbor(layer, idx);
+				if (layer === 0) {
+					for (const k of Object.keys(node)) visited.add(Number(k));
+				}
+				return node;
+			});
+
+		const ep = [[hnsw.distance(train[1], train[0]), 0]] as [number, number][];
+		const W = await hnsw.search_layer(train[1], ep, K, 0, {
+			accept: async (idxs) => {
+				filtered.push(...idxs);
+				return idxs.map(() => true);
+			},
+		});
+		spy.mockRestore();
+
+		expect(W.length).toBe(K);
+		// far neighbors are only routed through, their metadata is never needed
+		expect(filtered.length).toBeLessThan(visited.size * 0.75);
+	});
+
+	test("should return nothing if nothing matches", async () => {
+		const res = await hnsw.knn_search(train[1], K, {
+			filter: { tenant: "missing" },
+		});
+		expect(res).toEqual([]);
+	});
+
+	test("should match filters", () => {
+		expect(matches_filter({ a: 1 }, { a: 1, b: 2 }, 0)).toBe(true);
+		expect(matches_filter({ a: 1 }, { a: 2 }, 0)).toBe(false);
+		expect(matches_filter({ a: { $nin: [1, 2] } }, { a: 3 }, 0)).toBe(true);
+		expect(
+			matches_filter<{ a: unknown }>({ a: { $gt: 1 } }, { a: "x" }, 0),
+		).toBe(false);
+		expect(matches_filter({ a: { $lte: "b" } }, { a: "a" }, 0)).toBe(true);
+		expect(matches_filter({ a: [1, 2] }, { a: [1, 2] }, 0)).toBe(true);
+		expect(matches_filter<{ a: number }>({ a: 1 }, null, 0)).toBe(false);
+		expect(matches_filter((_, id) => id === 4, null, 4)).toBe(true);
+	});
+});
+
+describe("HNSW batch insert", () => {
+	const N = 300;
+	const K = 10;
+	let train: number[][];
+
+	// counts the calls made to the database
+	const calls: Record<string, number> = {};
+	const db = new Proxy(new KVMemory<Metadata>(), {
+		get(target, prop, receiver) {
+			const value = Reflect.get(target, prop, receiver);
+			if (typeof value !== "function") return value;
+			return (...args: unknown[]) => {
+				calls[String(prop)] = (calls[String(prop)] ?? 0) + 1;
+				return value.apply(target, args);
+			};
+		},
+	});
+	const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+
+	beforeAll(() => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	test("should coalesce the writes of a batch", async () => {
+		const ids = await hnsw.insertMany(
+			train.slice(0, N),
+			train.slice(0, N).map((_, i) => ({ id: i })),
+		);
+		expect(ids).toEqual(train.slice(0, N).map((_, i) => i));
+
+		expect(calls.new_point).toBeUndefined();
+		expect(calls.set_metadata).toBeUndefined();
+		expect(calls.upsert_neighbor).toBeUndefined();
+		expect(calls.new_points).toBe(1);
+		expect(calls.set_metadatas).toBe(1);
+		expect(calls.set_ep).toBe(1);
+		expect(calls.upsert_neighbors).toBe(await db.get_num_layers());
+	});
+
+	test("should build a searchable index", async () => {
+		expect(await db.get_datasize()).toBe(N);
+		expect((await db.get_config())?.metric).toBe("cosine");
+
+		let found = 0;
+		for (let i = 0; i < N; i += 10) {
+			const [res] = await hnsw.knn_search(train[i], K);
+			expect(res.metadata).toEqual({ id: res.id });
+			if (res.id === i) found++;
+		}
+		expect(found).toBeGreaterThanOrEqual(N / 10 - 2);
+	});
+
+	test("should extend an existing index and keep its tombstones", async () => {
+		await hnsw.delete(0);
+		const ids = await hnsw.insertMany(train.slice(N, N + 100));
+		expect(ids[0]).toBe(N);
+		expect(await db.get_datasize()).toBe(N + 100);
+		expect(await db.get_visibilities([0])).toEqual([false]);
+
+		const res = await hnsw.knn_search(train[N + 50], K);
+		expect(res[0].id).toBe(N + 50);
+		expect(res[0].metadata).toBeNull();
+		for (const r of await hnsw.knn_search(train[0], K)) {
+			expect(r.id).not.toBe(0);
+		}
+	});
+
+	test("should write nothing when the batch is invalid", async () => {
+		await expect(
+			hnsw.insertMany(train.slice(0, 2), [{ id: 0 }]),
+		).rejects.toThrow(/metadatas/);
+		expect(await db.get_datasize()).toBe(N + 100);
+	});
+});
+
+describe("HNSW range search", () => {
+	const N = 500;
+	let train: number[][];
+	const hnsw = new HNSW<Metadata>(new KVMemory(), 5, 128, 20);
+
+	/** exact distances to all points, sorted */
+	const bruteForce = (q: number[]) =>
+		train
+			.slice(0, N)
+			.map((p, i) => [hnsw.distance(q, p), i] as [number, number])
+			.sort((a, b) => a[0] - b[0]);
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		await hnsw.insertMany(
+			train.slice(0, N),
+			train.slice(0, N).map((_, i) => ({ id: i })),
+		);
+	});
+
+	test("should return the points within the distance, beyond ef", async () => {
+		const exact = bruteForce(train[7]);
+		const radius = exact[60][0]; // 61 matches, three times ef
+
+		const res = await hnsw.range_search(train[7], radius);
+		for (const r of res) {
+			expect(r.distance).toBeLessThanOrEqual(radius);
+		}
+		const distances = res.map((r) => r.distance);
+		expect(distances).toEqual([...distances].sort((a, b) => a - b));
+
+		const expected = exact.slice(0, 61).map(([, i]) => i);
+		const recall = res.filter((r) => expected.includes(r.id)).length / 61;
+		expect(recall).toBeGreaterThanOrEqual(0.9);
+	});
+
+	test("should return all points within the distance with ef 1", async () => {
+		// points on a line, few enough to be connected to all others
+		const line = new HNSW(new Memory(), 5, 128, 20, { metric: "l2" });
+		for (let i = 0; i < 10; i++) {
+			await line.insert([i, 0]);
+		}
+		const res = await line.range_search([0, 0], 5.5, { ef: 1 });
+		expect(res.map((r) => r.id)).toEqual([0, 1, 2, 3, 4, 5]);
+	});
+
+	test("should return the closest matches up to the limit", async () => {
+		const radius = bruteForce(train[7])[60][0];
+		const all = await hnsw.range_search(train[7], radius);
+		const res = await hnsw.range_search(train[7], radius, { limit: 5 });
+		expect(res.map((r) => r.id)).toEqual(all.slice(0, 5).map((r) => r.id));
+	});
+
+	test("should return nothing outside the distance", async () => {
+		const closest = bruteForce(train[7].map((v) => -v))[0][0];
+		expect(
+			await hnsw.range_search(
+				train[7].map((v) => -v),
+				closest / 2,
+			),
+		).toEqual([]);
+	});
+
+	test("should skip deleted and unmatched points", async () => {
+		const radius = bruteForce(train[7])[20][0];
+		await hnsw.delete(7);
+
+		const res = await hnsw.range_search(train[7], radius, {
+			filter: (_, id) => id % 2 === 1,
+		});
+		expect(res.length).toBeGreaterThan(0);
+		for (const r of res) {
+			expect(r.id).not.toBe(7);
+			expect(r.id % 2).toBe(1);
+		}
+	});
+});
+
+describe("HNSW search options", () => {
+	const N = 300;
+	const K = 10;
+	let train: number[][];
+	const db = new KVMemory<Metadata>();
+	const hnsw = new HNSW<Metadata>(db, 5, 128, 10);
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		await hnsw.insertMany(train.slice(0, N));
+	});
+
+	test("should override ef per query", async () => {
+		const q = train[N + 1];
+		const exact = train
+			.slice(0, N)
+			.map((p, i) => [hnsw.distance(q, p), i] as [number, number])
+			.sort((a, b) => a[0] - b[0])
+			.slice(0, K)
+			.map(([, i]) => i);
+
+		const res = await hnsw.knn_search(q, K, { ef: N });
+		expect(res.map((r) => r.id)).toEqual(exact);
+	});
+
+	test("should include the stored vectors", async () => {
+		const res = await hnsw.knn_search(train[3], K, { includeVectors: true });
+		for (const r of res) {
+			expect(r.vector).toEqual(await db.get_point(r.id));
+		}
+		const [plain] = await hnsw.knn_search(train[3], 1);
+		expect(plain.vector).toBeUndefined();
+	});
+
+	test("should stop when aborted", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const res = await hnsw.knn_search(train[3], K, {
+			signal: controller.signal,
+		});
+		// only the entry point has been found
+		expect(res.length).toBeLessThanOrEqual(1);
+	});
+
+	test("should stop at the deadline", async () => {
+		const expired = await hnsw.knn_search(train[3], K, {
+			deadline: Date.now() - 1,
+		});
+		expect(expired.length).toBeLessThanOrEqual(1);
+
+		const res = await hnsw.knn_search(train[3], K, {
+			deadline: Date.now() + 60_000,
+		});
+		expect(res).toEqual(await hnsw.knn_search(train[3], K));
+	});
+});
+
+describe("HNSW seeded builds", () => {
+	const N = 200;
+	let train: number[][];
+
+	/** reads the whole graph of an index */
+	const dump = async (db: KVMemory<Metadata>) => {
+		const idxs = train.slice(0, N).map((_, i) => i);
+		const layers = [];
+		for (let l = 0; l < (await db.get_num_layers()); l++) {
+			const exists = await db.has_neighbors(l, idxs);
+			layers.push(
+				await db.get_neighbors(
+					l,
+					idxs.filter((_, i) => exists[i]),
+				),
+			);
+		}
+		return { ep: await db.get_ep(), layers };
+	};
+
+	const build = async (seed: number) => {
+		const db = new KVMemory<Metadata>();
+		const hnsw = new HNSW<Metadata>(db, 5, 128, 20, { seed });
+		for (let i = 0; i < N; i++) {
+			await hnsw.insert(train[i]);
+		}
+		return dump(db);
+	};
+
+	beforeAll(() => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	test("should build the same graph with the same seed", async () => {
+		const a = await build(42);
+		expect(a.layers.length).toBeGreaterThan(1);
+		expect(await build(42)).toEqual(a);
+		expect(await build(7)).not.toEqual(a);
+	});
+
+	test("should generate the same sequence with the same seed", () => {
+		const a = seeded_random(42);
+		const b = seeded_random(42);
+		for (let i = 0; i < 100; i++) {
+			const x = a();
+			expect(x).toBeGreaterThanOrEqual(0);
+			expect(x).toBeLessThan(1);
+			expect(b()).toBe(x);
+		}
+		expect(seeded_random(43)()).not.toBe(seeded_random(42)());
+	});
+
+	test("should prefer an injected generator", async () => {
+		const hnsw = new HNSW(new KVMemory(), 5, 128, 20, {
+			seed: 42,
+			random: () => 0.99,
+		});
+		// -ln(0.01) / ln(5) = 2.86
+		expect(hnsw.select_layer()).toBe(2);
+	});
+});
+
+describe("HNSW concurrent writes", () => {
+	const N = 100;
+	let train: number[][];
+
+	/** checks that every point got its own index, and the graph only links stored points */
+	const expectConsistent = async (db: DBInterface<Metadata>) => {
+		expect(await db.get_datasize()).toBe(N);
+		const idxs = train.slice(0, N).map((_, i) => i);
+		for (let l = 0; l < (await db.get_num_layers()); l++) {
+			const exists = await db.has_neighbors(l, idxs);
+			const graph = await db.get_neighbors(
+				l,
+				idxs.filter((_, i) => exists[i]),
+			);
+			for (const node of Object.values(graph)) {
+				for (const neighbor of Object.keys(node)) {
+					expect(Number.parseInt(neighbor)).toBeLessThan(N);
+				}
+			}
+		}
+		expect(await db.has_neighbors(0, idxs)).not.toContain(false);
+	};
+
+	beforeAll(() => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	test("should serialize parallel inserts", async () => {
+		const db = new KVMemory<Metadata>();
+		const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+
+		const ids = await Promise.all(
+			train.slice(0, N).map((p, i) => hnsw.insert(p, { id: i })),
+		);
+		expect(new Set(ids).size).toBe(N);
+		await expectConsistent(db);
+
+		for (let i = 0; i < N; i += 10) {
+			const [res] = await hnsw.knn_search(train[i], 1);
+			expect(res.metadata).toEqual({ id: res.id });
+		}
+	});
+
+	test("should serialize writers of different processes with a lease", async () => {
+		const db = new Memory<Metadata>();
+		// proxies stand for separate processes, which do not share a mutex
+		const writers = [0, 1].map(
+			(owner) =>
+				new HNSW<Metadata>(new Proxy(db, {}), 5, 128, 20, {
+					lock: new LeaseLock(db, {
+						owner: `${owner}`,
+						retryDelay: 1,
+						settleDelay: 1,
+					}),
+				}),
+		);
+
+		await Promise.all(
+			train.slice(0, N).map((p, i) => writers[i % 2].insert(p, { id: i })),
+		);
+		await expectConsistent(db);
+	});
+});
+
+describe("HNSW integrity", () => {
+	const N = 100;
+	let train: number[][];
+
+	/** builds a fresh index, which is the same for every test */
+	const build = async () => {
+		const db = new KVMemory<Metadata>();
+		const hnsw = new HNSW<Metadata>(db, 5, 128, 20, { seed: 1 });
+		await hnsw.insertMany(train.slice(0, N));
+		return { db, hnsw };
+	};
+
+	const types = (issues: IntegrityIssue[]) =>
+		[...new Set(issues.map((i) => i.type))].filter(
+			(t) => t !== "one_directional_edge",
+		);
+
+	beforeAll(() => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	test("should report the structure of an index", async () => {
+		const { hnsw } = await build();
+		const report = await hnsw.verify();
+		// pruning may leave a few nodes without connections towards them
+		expect(types(report.issues)).not.toContain("missing_node");
+		expect(types(report.issues)).not.toContain("dangling_edge");
+		expect(types(report.issues)).not.toContain("degree_exceeded");
+		expect(types(report.issues)).not.toContain("invalid_entry_point");
+		expect(report.points).toBe(N);
+		expect(report.nodes[0]).toBe(N);
+		for (let l = 1; l < report.nodes.length; l++) {
+			expect(report.nodes[l]).toBeLessThanOrEqual(report.nodes[l - 1]);
+		}
+	});
+
+	test("should make every node reachable", async () => {
+		const { hnsw } = await build();
+		await hnsw.repair();
+		const report = await hnsw.verify();
+		expect(types(report.issues)).toEqual([]);
+		expect(report.valid).toBe(true);
+	});
+
+	test("should repair an interrupted insert", async () => {
+		const { db, hnsw } = await build();
+		// the point was stored, but the insert failed before linking it
+		const idx = await db.new_point(train[N]);
+
+		const report = await hnsw.verify();
+		expect(report.valid).toBe(false);
+		expect(report.issues).toContainEqual({
+			type: "missing_node",
+			layer: 0,
+			idx,
+		});
+
+		await hnsw.repair();
+		expect((await hnsw.verify()).valid).toBe(true);
+		expect((await hnsw.knn_search(train[N], 1))[0].id).toBe(idx);
+	});
+
+	test("should repair a failed first insert", async () => {
+		const db = new KVMemory<Metadata>();
+		const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+		await db.new_point(train[0]);
+		expect(types((await hnsw.verify()).issues)).toEqual([
+			"missing_entry_point",
+			"missing_node",
+		]);
+
+		await hnsw.repair();
+		expect((await hnsw.verify()).valid).toBe(true);
+		await hnsw.insert(train[1]);
+		expect((await hnsw.knn_search(train[0], 1))[0].id).toBe(0);
+	});
+
+	test("should remove dangling edges and prune overfull nodes", async () => {
+		const { db, hnsw } = await build();
+		const node = await db.get_neighbor(0, 3);
+		for (let i = 0; i < N; i++) {
+			if (i !== 3) node[i] = hnsw.distance(train[3], train[i]);
+		}
+		node[N + 50] = 0.1;
+		await db.upsert_neighbor(0, 3, node);
+
+		const report = await hnsw.verify();
+		expect(report.issues).toContainEqual({
+			type: "dangling_edge",
+			layer: 0,
+			from: 3,
+			to: N + 50,
+		});
+		expect(report.issues).toContainEqual({
+			type: "degree_exceeded",
+			layer: 0,
+			idx: 3,
+			degree: N,
+			max: 10,
+		});
+
+		await hnsw.repair();
+		expect((await hnsw.verify()).valid).toBe(true);
+		const repaired = await db.get_neighbor(0, 3);
+		expect(Object.keys(repaired).length).toBeLessThanOrEqual(10);
+		expect(repaired[N + 50]).toBeUndefined();
+	});
+
+	test("should relink unreachable nodes and keep them deleted", async () => {
+		const { db, hnsw } = await build();
+		const ep = (await db.get_ep()) as number;
+		const idx = ep === 5 ? 6 : 5;
+		await hnsw.delete(idx);
+
+		// remove every edge towards the node
+		const all = train.slice(0, N).map((_, i) => i);
+		const graph = await db.get_neighbors(0, all);
+		for (const i of all) delete graph[i][idx];
+		await db.upsert_neighbors(0, graph, [idx]);
+		expect((await hnsw.verify()).issues).toContainEqual({
+			type: "unreachable",
+			layer: 0,
+			idx,
+		});
+
+		await hnsw.repair();
+		expect((await hnsw.verify()).valid).toBe(true);
+		expect(await db.get_visibilities([idx])).toEqual([false]);
+	});
+
+	test("should repair an invalid entry point", async () => {
+		const { db, hnsw } = await build();
+		const L = (await db.get_num_layers()) - 1;
+		const base = (
+			await db.has_neighbors(
+				1,
+				train.slice(0, N).map((_, i) => i),
+			)
+		).indexOf(false);
+		await db.set_ep(base);
+		expect((await hnsw.verify()).issues).toContainEqual({
+			type: "invalid_entry_point",
+			ep: base,
+			layer: L,
+		});
+
+		await hnsw.repair();
+		expect((await hnsw.verify()).valid).toBe(true);
+		expect((await hnsw.knn_search(train[7], 1))[0].id).toBe(7);
+	});
+});
+
+describe("HNSW rebuild", () => {
+	const N = 200;
+	let train: number[][];
+	const source = new KVMemory<Metadata>();
+	const hnsw = new HNSW<Metadata>(source, 5, 16, 20, { metric: "l2" });
+	const deleted = [3, 50, 199];
+	let corrupted: number;
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		await hnsw.insertMany(
+			train.slice(0, N),
+			train.slice(0, N).map((_, i) => ({ id: i })),
+		);
+		for (const idx of deleted) {
+			await hnsw.delete(idx);
+		}
+		// an insert that failed after storing the point
+		corrupted = await source.new_point(train[N]);
+	});
+
+	test("should rebuild the live points into a fresh index", async () => {
+		const target = new KVMemory<Metadata>();
+		const { index, ids, skipped } = await hnsw.rebuild(target, {
+			m: 8,
+			efConstruction: 64,
+			batchSize: 64,
+		});
+
+		expect(skipped).toEqual([corrupted]);
+		expect(ids.size).toBe(N - deleted.length);
+		for (const idx of deleted) {
+			expect(ids.has(idx)).toBe(false);
+		}
+		expect(await target.get_datasize()).toBe(N - deleted.length);
+		expect((await target.get_config())?.metric).toBe("l2");
+		expect(index.m).toBe(8);
+		expect(index.ef_construction).toBe(64);
+		expect(index.ef).toBe(hnsw.ef);
+
+		// old indices map to the same vectors and metadata
+		for (const [oldId, newId] of [...ids].slice(0, 20)) {
+			const { point, metadata } = await index.get_vector(newId);
+			expect(point).toEqual(await source.get_point(oldId));
+			expect(metadata).toEqual({ id: oldId });
+		}
+
+		const [res] = await index.knn_search(train[10], 1);
+		expect(res.id).toBe(ids.get(10));
+		expect(res.metadata).toEqual({ id: 10 });
+		const { issues } = await index.verify();
+		expect(issues.map((i) => i.type)).not.toContain("missing_node");
+	});
+
+	test("should reject a target that is not empty", async () => {
+		await expect(hnsw.rebuild(source)).rejects.toThrow(/must be empty/);
+	});
+
+	test("should take over the flat search threshold", async () => {
+		const flat = new HNSW<Metadata>(source, 5, 16, 20, {
+			metric: "l2",
+			flatSearchThreshold: 500,
+		});
+		const { index } = await flat.rebuild(new KVMemory<Metadata>());
+		expect(index.flat_search_threshold).toBe(500);
+
+		const { index: graph } = await flat.rebuild(new KVMemory<Metadata>(), {
+			flatSearchThreshold: 0,
+		});
+		expect(graph.flat_search_threshold).toBe(0);
+	});
+});
+
+describe("HNSW multi-query search", () => {
+	const N = 300;
+	const K = 10;
+	let train: number[][];
+
+	// records the calls made to the database, and the points fetched
+	const calls: Record<string, number> = {};
+	const fetched: number[] = [];
+	const db = new Proxy(new KVMemory<Metadata>(), {
+		get(target, prop, receiver) {
+			const value = Reflect.get(target, prop, receiver);
+			if (typeof value !== "function") return value;
+			return (...args: unknown[]) => {
+				calls[String(prop)] = (calls[String(prop)] ?? 0) + 1;
+				if (prop === "get_points") fetched.push(...(args[0] as number[]));
+				return value.apply(target, args);
+			};
+		},
+	});
+	const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+
+	const reset = () => {
+		for (const key of Object.keys(calls)) delete calls[key];
+		fetched.length = 0;
+	};
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		await hnsw.insertMany(
+			train.slice(0, N),
+			train.slice(0, N).map((_, i) => ({ id: i })),
+		);
+	});
+
+	test("should return the same results as single searches", async () => {
+		const queries = train.slice(N, N + 50);
+		const expected = [];
+		for (const q of queries) {
+			expected.push(await hnsw.knn_search(q, K));
+		}
+		expect(await hnsw.knn_search_many(queries, K)).toEqual(expected);
+	});
+
+	test("should share and deduplicate reads", async () => {
+		const queries = train.slice(N, N + 50);
+		reset();
+		for (const q of queries) {
+			await hnsw.knn_search(q, K);
+		}
+		const single = { ...calls };
+		const singleFetched = fetched.length;
+
+		reset();
+		await hnsw.knn_search_many(queries, K, { filter: { id: { $gte: 0 } } });
+		expect(calls.get_neighbor).toBeUndefined();
+		expect(calls.get_neighbors).toBeLessThan(single.get_neighbor / 10);
+		expect(calls.get_points).toBeLessThan(single.get_points / 10);
+		expect(new Set(fetched).size).toBe(fetched.length);
+		expect(fetched.length).toBeLessThan(singleFetched);
+	});
+
+	test("should return nothing for no queries", async () => {
+		expect(await hnsw.knn_search_many([], K)).toEqual([]);
+	});
+
+	test("should retry reads that failed", async () => {
+		const loader = new LoaderMemory(db);
+		const get_ep = vi
+			.spyOn(db, "get_ep")
+			.mockRejectedValueOnce(new Error("timeout"));
+		const get_neighbors = vi
+			.spyOn(db, "get_neighbors")
+			.mockRejectedValueOnce(new Error("timeout"));
+
+		await expect(loader.get_ep()).rejects.toThrow("timeout");
+		await expect(loader.get_neighbor(0, 1)).rejects.toThrow("timeout");
+		expect(await loader.get_ep()).toBe(await db.get_ep());
+		expect(await loader.get_neighbor(0, 1)).toEqual(
+			await db.get_neighbor(0, 1),
+		);
+
+		get_ep.mockRestore();
+		get_neighbors.mockRestore();
+	});
+});
+
+describe("HNSW flat search", () => {
+	const N = 300;
+	const K = 10;
+	let train: number[][];
+	const db = new KVMemory<Metadata>();
+	const hnsw = new HNSW<Metadata>(db, 5, 128, 20);
+	const deleted = [1, 2, 3];
+
+	/** exact top-K among live matching points */
+	const bruteForce = (
+		q: number[],
+		match: (i: number) => boolean = () => true,
+	) =>
+		train
+			.slice(0, N)
+			.map((p, i) => [hnsw.distance(q, p), i] as [number, number])
+			.filter(([, i]) => !deleted.includes(i) && match(i))
+			.sort((a, b) => a[0] - b[0])
+			.slice(0, K);
+
+	beforeAll(async () => {
+		train = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		await hnsw.insertMany(
+			train.slice(0, N),
+			train.slice(0, N).map((_, i) => ({ id: i })),
+		);
+		for (const idx of deleted) {
+			await hnsw.delete(idx);
+		}
+	});
+
+	test("should return the exact nearest neighbors", async () => {
+		const q = train[1];
+		const res = await hnsw.flat_search(q, K, { chunkSize: 64 });
+		const expected = bruteForce(q);
+		expect(res.map((r) => r.id)).toEqual(expected.map(([, i]) => i));
+		expect(res.map((r) => r.distance)).toEqual(expected.map(([d]) => d));
+		expect(res[0].metadata).toEqual({ id: expected[0][1] });
+	});
+
+	test("should support filters and vectors", async () => {
+		const q = train[N + 1];
+		const res = await hnsw.flat_search(q, K, {
+			filter: { id: { $lt: 100 } },
+			includeVectors: true,
+		});
+		expect(res.map((r) => r.id)).toEqual(
+			bruteForce(q, (i) => i < 100).map(([, i]) => i),
+		);
+		expect(res[0].vector).toEqual(await db.get_point(res[0].id));
+	});
+
+	test("should search small indexes exactly", async () => {
+		let graphReads = 0;
+		const counted = new Proxy(db, {
+			get(target, prop, receiver) {
+				if (prop === "get_neighbor") graphReads++;
+				return Reflect.get(target, prop, receiver);
+			},
+		});
+
+		const small = new HNSW<Metadata>(counted, 5, 128, 1, {
+			flatSearchThreshold: N + 1,
+		});
+		const q = train[N + 2];
+		const res = await small.knn_search(q, K);
+		expect(res.map((r) => r.id)).toEqual(bruteForce(q).map(([, i]) => i));
+		expect(graphReads).toBe(0);
+
+		const large = new HNSW<Metadata>(counted, 5, 128, 1, {
+			flatSearchThreshold: N,
+		});
+		await large.knn_search(q, K);
+		expect(graphReads).toBeGreaterThan(0);
+	});
+});
+
+describe("HNSW diversified search", () => {
+	const db = new Memory<Metadata>();
+	const hnsw = new HNSW<Metadata>(db, 5, 128, 20, { metric: "l2", seed: 7 });
+	/** cluster of each point, five near-duplicates per cluster */
+	const clusters: number[] = [];
+
+	beforeAll(async () => {
+		const centers = [
+			[0, 0],
+			[3, 0],
+			[0, 3],
+		];
+		const points = centers.flatMap((c, j) =>
+			Array.from({ length: 5 }, (_, i) => {
+				clusters.push(j);
+				return [c[0] + i * 0.01, c[1] - i * 0.01];
+			}),
+		);
+		await hnsw.insertMany(
+			points,
+			points.map((_, i) => ({ id: i })),
+		);
+	});
+
+	test("should pick results of different clusters", async () => {
+		const q = [0.5, 0.5];
+		const plain = await hnsw.knn_search(q, 3);
+		expect(plain.map((r) => clusters[r.id])).toEqual([0, 0, 0]);
+
+		const diverse = await hnsw.knn_search(q, 3, { diversity: 0.5 });
+		expect(diverse.map((r) => clusters[r.id]).sort()).toEqual([0, 1, 2]);
+		expect(diverse[0]).toEqual(plain[0]);
+		expect(diverse[1].metadata).toEqual({ id: diverse[1].id });
+		expect(diverse[1].distance).toBeCloseTo(
+			hnsw.distance(q, await db.get_point(diverse[1].id)),
+		);
+	});
+
+	test("should rank by relevance only with a lambda of 1", async () => {
+		const q = [2.5, 0.2];
+		expect(await hnsw.knn_search(q, 4, { diversity: 1 })).toEqual(
+			await hnsw.knn_search(q, 4),
+		);
+	});
+
+	test("should diversify exact searches", async () => {
+		const res = await hnsw.flat_search([0.5, 0.5], 3, { diversity: 0.5 });
+		expect(res.map((r) => clusters[r.id]).sort()).toEqual([0, 1, 2]);
+	});
+
+	test("should reject a diversity outside of [0, 1]", async () => {
+		await expect(
+			hnsw.knn_search([0, 0], 3, { diversity: 1.5 }),
+		).rejects.toThrow("Diversity must be between 0 and 1, got 1.5");
+	});
+});
@@ -0,0 +1,256 @@
+import { LeaseLock, Mutex, mutex_for } from "../src/db/lock";
+import { HNSW } from "../src/hnsw";
+import { Memory } from "./db/memory";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** lease storage of a writer whose writes take `latency` ms to become visible */
+const slow = (db: Memory, latency: number) => ({
+	get_lease: () => db.get_lease(),
+	set_lease: async (lease: string | null) => {
+		await sleep(latency);
+		await db.set_lease(lease);
+	},
+});
+
+describe("mutex", () => {
+	test("should run operations one after another, in order", async () => {
+		const mutex = new Mutex();
+		const events: string[] = [];
+		const op = (name: string, ms: number) =>
+			mutex.run(async () => {
+				events.push(`start ${name}`);
+				await sleep(ms);
+				events.push(`end ${name}`);
+				return name;
+			});
+
+		expect(await Promise.all([op("a", 20), op("b", 0), op("c", 10)])).toEqual([
+			"a",
+			"b",
+			"c",
+		]);
+		expect(events).toEqual([
+			"start a",
+			"end a",
+			"start b",
+			"end b",
+			"start c",
+			"end c",
+		]);
+	});
+
+	test("should keep going after a failed operation", async () => {
+		const mutex = new Mutex();
+		const failed = mutex.run(async () => {
+			throw new Error("failed");
+		});
+		await expect(failed).rejects.toThrow("failed");
+		expect(await mutex.run(async () => 1)).toBe(1);
+	});
+
+	test("should share a mutex per database", () => {
+		const db = new Memory();
+		expect(mutex_for(db)).toBe(mutex_for(db));
+		expect(mutex_for(db)).not.toBe(mutex_for(new Memory()));
+	});
+});
+
+describe("lease lock", () => {
+	const options = { retryDelay: 5, settleDelay: 5 };
+
+	test("should exclude other writers", async () => {
+		const db = new Memory();
+		let holders = 0;
+		let maxHolders = 0;
+
+		await Promise.all(
+			["a", "b", "c"].map(async (owner) => {
+				const lock = new LeaseLock(db, { ...options, owner });
+				for (let i = 0; i < 3; i++) {
+					const release = await lock.acquire();
+					holders++;
+					maxHolders = Math.max(maxHolders, holders);
+					await sleep(5);
+					holders--;
+					await release();
+				}
+			}),
+		);
+
+		expect(maxHolders).toBe(1);
+		expect(await db.get_lease()).toBeNull();
+	});
+
+	test("should not lose updates with slow backends", async () => {
+		const db = new Memory();
+		let counter = 0;
+		let commits = 0;
+
+		// the first lease of "a" becomes visible long after "b" has read its own back
+		await Promise.all(
+			[
+				{ owner: "a", latency: 40 },
+				{ owner: "b", latency: 1 },
+			].map(async ({ owner, latency }) => {
+				const lock = new LeaseLock(slow(db, latency), {
+					...options,
+					owner,
+					ttl: 300,
+				});
+				for (let i = 0; i < 3; ) {
+					const release = await lock.acquire();
+					const read = counter;
+					await sleep(60);
+					// a writer that lost the lease does not commit, and tries again
+					const held = await lock.check().then(
+						() => true,
+						() => false,
+					);
+					if (held) {
+						counter = read + 1;
+						commits++;
+						i++;
+					}
+					await release();
+				}
+			}),
+		);
+
+		expect(commits).toBe(6);
+		expect(counter).toBe(6);
+	});
+
+	test("should take over expired leases", async () => {
+		const db = new Memory();
+		// a writer that crashed while holding the lease, which is no longer renewed
+		await db.set_lease(
+			JSON.stringify({
+				owner: "crashed",
+				token: "t",
+				expires: Date.now() + 20,
+			}),
+		);
+
+		const release = await new LeaseLock(db, options).acquire();
+		await release();
+		expect(await db.get_lease()).toBeNull();
+	});
+
+	test("should keep the lease during long writes", async () => {
+		const db = new Memory();
+		const lock = new LeaseLock(db, { ...options, owner: "long", ttl: 30 });
+		const release = await lock.acquire();
+
+		const other = new LeaseLock(db, { ...options, timeout: 100 });
+		await expect(other.acquire()).rejects.toThrow(/held by "long"/);
+		await lock.check();
+
+		await release();
+		expect(await db.get_lease()).toBeNull();
+		await expect(lock.check()).rejects.toThrow(/not held/);
+	});
+
+	test("should fail the check once the lease expired during a write", async () => {
+		const db = new Memory();
+		let renew = true;
+		const lock = new LeaseLock(
+			{
+				get_lease: () => db.get_lease(),
+				set_lease: async (lease) => {
+					if (!renew) throw new Error("unavailable");
+					await db.set_lease(lease);
+				},
+			},
+			{ ...options, ttl: 30 },
+		);
+		const release = await lock.acquire();
+
+		// renewals fail, and another writer takes over once the lease expired
+		renew = false;
+		const releaseOther = await new LeaseLock(db, options).acquire();
+		await expect(lock.check()).rejects.toThrow(/taken over/);
+
+		await release();
+		await releaseOther();
+		expect(await db.get_lease()).toBeNull();
+	});
+
+	test("should not commit batches once the lease was lost", async () => {
+		const db = new Memory();
+		const lock = new LeaseLock(db, options);
+		const hnsw = new HNSW(db, 5, 16, 10, { lock });
+		await hnsw.insert([1, 0]);
+
+		// another writer overwrites the lease while the batch is running
+		const get_ep = db.get_ep.bind(db);
+		vi.spyOn(db, "get_ep").mockImplementationOnce(async () => {
+			await db.set_lease(
+				JSON.stringify({ owner: "other", token: "t", expires: Date.now() }),
+			);
+			return get_ep();
+		});
+		await expect(
+			hnsw.insertMany([
+				[0, 1],
+				[1, 1],
+			]),
+		).rejects.toThrow(/taken over/);
+		expect(await db.get_datasize()).toBe(1);
+	});
+
+	test("should not write single points once the lease was lost", async () => {
+		const db = new Memory();
+		const lock = new LeaseLock(db, options);
+		const hnsw = new HNSW(db, 5, 16, 10, { lock });
+		await hnsw.insert([1, 0]);
+
+		// another writer overwrites the lease while the writes are running
+		const takeOver = () =>
+			db.set_lease(
+				JSON.stringify({ owner: "other", token: "t", expires: Date.now() }),
+			);
+		const get_ep = db.get_ep.bind(db);
+		vi.spyOn(db, "get_ep").mockImplementationOnce(async () => {
+			await takeOver();
+			return get_ep();
+		});
+		await expect(hnsw.insert([0, 1])).rejects.toThrow(/taken over/);
+		expect(await db.get_datasize()).toBe(1);
+
+		const get_datasize = db.get_datasize.bind(db);
+		vi.spyOn(db, "get_datasize").mockImplementationOnce(async () => {
+			await takeOver();
+			return get_datasize();
+		});
+		await expect(hnsw.delete(0)).rejects.toThrow(/taken over/);
+		expect(await db.get_visibilities([0])).toEqual([true]);
+	});
+
+	test("should time out when every attempt to take the lease is lost", async () => {
+		// reads only ever see the expired lease of another writer
+		const lock = new LeaseLock(
+			{
+				get_lease: async () =>
+					JSON.stringify({ owner: "other", token: "t", expires: 0 }),
+				set_lease: async () => {},
+			},
+			{ ...options, timeout: 30 },
+		);
+		await expect(lock.acquire()).rejects.toThrow(
+			"Timed out waiting for the write lease",
+		);
+	});
+
+	test("should time out while another writer holds the lease", async () => {
+		const db = new Memory();
+		const release = await new LeaseLock(db, {
+			...options,
+			owner: "other",
+		}).acquire();
+
+		const lock = new LeaseLock(db, { ...options, timeout: 30 });
+		await expect(lock.acquire()).rejects.toThrow(/held by "other"/);
+		await release();
+	});
+});
@@ -0,0 +1,144 @@
+import { readFileSync } from "node:fs";
+import { CODEC_VERSION, codec_version } from "../src/codec";
+import { EizenMemory } from "../src/db";
+import type { ValueStore } from "../src/db/interfaces";
+import { migrate_codec } from "../src/db/migrate";
+import { HNSW } from "../src/hnsw";
+import { ScalarQuantizer } from "../src/quantization";
+import { KVClient } from "./db/kvClient";
+
+type Metadata = { id: number };
+type Client = ValueStore<string>;
+
+describe("codec migration", () => {
+	const N = 60;
+	let points: number[][];
+	let kv: KVClient;
+	let client: Client;
+
+	beforeAll(() => {
+		points = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	beforeEach(() => {
+		kv = new KVClient();
+		client = kv as unknown as Client;
+	});
+
+	/** versions of the encoded values: vectors, codes and nodes */
+	function versions(): Set<number> {
+		const encoded = [...kv.values.keys()].filter((key) =>
+			/^(\d+|q:\d+|\d+__\d+)$/.test(key),
+		);
+		expect(encoded.length).toBeGreaterThan(N);
+		return new Set(
+			encoded.map((key) => codec_version(kv.values.get(key) ?? "")),
+		);
+	}
+
+	test("should rewrite an index in the new format", async () => {
+		const legacy = new HNSW<Metadata>(
+			new EizenMemory(client, { codec: { version: 0 } }),
+			5,
+			64,
+			20,
+			{ seed: 1 },
+		);
+		await legacy.insertMany(
+			points.slice(0, N),
+			points.slice(0, N).map((_, i) => ({ id: i })),
+		);
+		await legacy.delete(3);
+		expect(versions()).toEqual(new Set([0]));
+
+		const queries = points.slice(N, N + 5);
+		const before = await Promise.all(
+			queries.map((q) => legacy.knn_search(q, 5)),
+		);
+
+		const db = new EizenMemory<Metadata>(client, { codec: { checksum: true } });
+		const report = await migrate_codec(db, { batchSize: 16 });
+		expect(report.points).toBe(N);
+		expect(report.codes).toBe(0);
+		expect(report.nodes).toBeGreaterThanOrEqual(N);
+		expect(report.skipped).toEqual([]);
+		expect(versions()).toEqual(new Set([CODEC_VERSION]));
+
+		// same graph, deleted points stay deleted
+		const index = new HNSW<Metadata>(db, 5, 64, 20);
+		const after = await Promise.all(queries.map((q) => index.knn_search(q, 5)));
+		expect(after).toEqual(before);
+		expect(after.flat().some((r) => r.id === 3)).toBe(false);
+
+		// migrating again changes nothing
+		const snapshot = new Map(kv.values);
+		await migrate_codec(db);
+		expect(kv.values).toEqual(snapshot);
+	});
+
+	test("should write the points in batches", async () => {
+		const legacy = new HNSW(
+			new EizenMemory(client, { codec: { version: 0 } }),
+			5,
+			64,
+			20,
+			{ seed: 1 },
+		);
+		await legacy.insertMany(points.slice(0, N));
+
+		const db = new EizenMemory(client);
+		const set_point = vi.spyOn(db, "set_point");
+		const set_points = vi.spyOn(db, "set_points");
+		const report = await migrate_codec(db, { batchSize: 16 });
+		expect(report.points).toBe(N);
+		expect(set_point).not.toHaveBeenCalled();
+		expect(set_points).toHaveBeenCalledTimes(Math.ceil(N / 16));
+	});
+
+	test("should rewrite the codes of quantized indexes", async () => {
+		const quantizer = ScalarQuantizer.fit(points.slice(0, N));
+		const legacy = new HNSW(
+			new EizenMemory(client, { codec: { version: 0 } }),
+			5,
+			64,
+			20,
+			{ seed: 1, quantizer },
+		);
+		await legacy.insertMany(points.slice(0, N));
+
+		const report = await migrate_codec(new EizenMemory(client));
+		expect(report.points).toBe(0);
+		expect(report.codes).toBe(N);
+		expect(versions()).toEqual(new Set([CODEC_VERSION]));
+	});
+
+	test("should skip codes that cannot be read", async () => {
+		const quantizer = ScalarQuantizer.fit(points.slice(0, N));
+		const legacy = new HNSW(new EizenMemory(client), 5, 64, 20, {
+			seed: 1,
+			quantizer,
+		});
+		await legacy.insertMany(points.slice(0, N));
+		kv.values.delete("q:5");
+
+		const report = await migrate_codec(new EizenMemory(client), {
+			batchSize: 16,
+		});
+		expect(report.skipped).toEqual([5]);
+		expect(report.codes).toBe(N - 1);
+		expect(kv.values.has("q:5")).toBe(false);
+	});
+
+	test("should skip vectors that cannot be read", async () => {
+		const legacy = new HNSW(new EizenMemory(client), 5, 64, 20, { seed: 1 });
+		await legacy.insertMany(points.slice(0, N));
+		kv.values.set(
+			"5",
+			Buffer.from([0xe7, 1, 1, 8, 5, 0, 0, 0, 0]).toString("base64"),
+		);
+
+		const report = await migrate_codec(new EizenMemory(client));
+		expect(report.skipped).toEqual([5]);
+		expect(report.points).toBe(N - 1);
+	});
+});
@@ -1,4 +1,15 @@
 import { index_buffer } from "../proto/hnsw_comm";
+import {
+	CODEC_VERSION,
+	codec_version,
+	crc32,
+	decodeLayerNode,
+	decodePoint,
+	decodePointQuant,
+	encodeLayerNode,
+	encodePoint,
+	encodePointQuant,
+} from "../src/codec";
 
 describe("protobuf", () => {
 	describe("layer node", () => {
@@ -24,4 +35,153 @@ describe("protobuf", () => {
 			expect(node.neighbors).toEqual(result.neighbors);
 		});
 	});
+
+	describe("codec", () => {
+		test("should keep nodes visible by default", () => {
+			const node = decodeLayerNode(encodeLayerNode({ idx: 1, neighbors: {} }));
+			expect(node.visible).toBe(true);
+		});
+
+		test("should keep the deleted flag", () => {
+			const node = decodeLayerNode(
+				encodeLayerNode({ idx: 1, visible: false, neighbors: { 2: 0.5 } }),
+			);
+			expect(node.visible).toBe(false);
+			expect(node.neighbors).toEqual({ 2: 0.5 });
+		});
+
+		test("should pack 8-bit codes as bytes", () => {
+			const codes = Array.from({ length: 192 }, (_, i) => (i * 37) % 256);
+			const data = encodePointQuant({ idx: 3, v: codes });
+			expect(decodePointQuant(data)).toEqual({ idx: 3, v: codes });
+
+			// one byte per code, 32x smaller than the floats of 8 dimensions each
+			// (plus the 3 bytes of the envelope header)
+			const floats = encodePoint({ idx: 3, v: Array(192 * 8).fill(0.1) });
+			expect(Buffer.from(data, "base64").length).toBeLessThan(203);
+			expect(Buffer.from(floats, "base64").length / 32).toBeGreaterThan(190);
+		});
+
+		test("should keep larger codes as varints", () => {
+			const decoded = decodePointQuant(
+				encodePointQuant({ idx: 1, v: [1, 300, 70000] }),
+			);
+			expect(decoded.v).toEqual([1, 300, 70000]);
+		});
+	});
+
+	describe("envelope", () => {
+		const point = { idx: 7, v: [0.5, -1, 2] };
+
+		test("should write the latest version with a format header", () => {
+			const data = encodePoint(point);
+			expect(codec_version(data)).toBe(CODEC_VERSION);
+			expect(Buffer.from(data, "base64")[0]).toBe(0xe7);
+			expect(decodePoint(data)).toEqual(point);
+		});
+
+		test("should read values written before versioning", () => {
+			const legacy = Buffer.from(
+				index_buffer.Point.encode(point).finish(),
+			).toString("base64");
+			expect(codec_version(legacy)).toBe(0);
+			expect(decodePoint(legacy)).toEqual(point);
+			expect(encodePoint(point, { version: 0 })).toBe(legacy);
+		});
+
+		test("should verify checksums", () => {
+			const data = encodeLayerNode(
+				{ idx: 1, neighbors: { 2: 0.25 } },
+				{ checksum: true },
+			);
+			expect(decodeLayerNode(data).neighbors).toEqual({ 2: 0.25 });
+
+			const bytes = Buffer.from(data, "base64");
+			bytes[4] ^= 0xff;
+			expect(() => decodeLayerNode(bytes.toString("base64"))).toThrow(
+				"Checksum mismatch",
+			);
+		});
+
+		test("should reject unknown versions", () => {
+			const future = Buffer.from([0xe7, CODEC_VERSION + 1, 0]).toString(
+				"base64",
+			);
+			expect(() => decodePoint(future)).toThrow(
+				`Unsupported codec version ${CODEC_VERSION + 1}`,
+			);
+			expect(() => encodePoint(point, { version: CODEC_VERSION + 1 })).toThrow(
+				"Unsupported codec version",
+			);
+			expect(() => encodePoint(point, { version: 0, checksum: true })).toThrow(
+				"Codec version 0 does not support checksums",
+			);
+		});
+
+		test("should compute CRC-32", () => {
+			expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+		});
+	});
+
+	describe("compact neighbors", () => {
+		const neighbors = { 1000: 0.5, 3: 0.25, 1004: 0.75, 17: 1 };
+
+		test("should store sorted ids as deltas", () => {
+			const node = index_buffer.LayerNode.decode(
+				Buffer.from(
+					encodeLayerNode({ idx: 5, neighbors }, { neighbors: "compact" }),
+					"base64",
+				).subarray(3),
+			);
+			expect(node.ids).toEqual([3, 14, 983, 4]);
+			expect(node.distances).toEqual([]);
+			expect(node.neighbors).toEqual({});
+		});
+
+		test("should decode with or without distances", () => {
+			const withDistances = decodeLayerNode(
+				encodeLayerNode(
+					{ idx: 5, visible: false, neighbors },
+					{ neighbors: "compact", distances: true },
+				),
+			);
+			expect(withDistances.visible).toBe(false);
+			expect(withDistances.neighbors).toEqual(neighbors);
+
+			const withoutDistances = decodeLayerNode(
+				encodeLayerNode({ idx: 5, neighbors }, { neighbors: "compact" }),
+			);
+			expect(withoutDistances.visible).toBe(true);
+			expect(Object.keys(withoutDistances.neighbors ?? {})).toEqual([
+				"3",
+				"17",
+				"1000",
+				"1004",
+			]);
+			expect(Object.values(withoutDistances.neighbors ?? {})).toEqual(
+				Array(4).fill(Number.NaN),
+			);
+		});
+
+		test("should be smaller than the map of distances", () => {
+			const wide = Object.fromEntries(
+				Array.from({ length: 32 }, (_, i) => [5000 + i * 7, 0.1 * i]),
+			);
+			const size = (data: string) => Buffer.from(data, "base64").length;
+			const map = size(encodeLayerNode({ idx: 1, neighbors: wide }));
+			const compact = size(
+				encodeLayerNode({ idx: 1, neighbors: wide }, { neighbors: "compact" }),
+			);
+			expect(compact).toBeLessThan(map / 4);
+		});
+
+		test("should need codec version 2", () => {
+			expect(() =>
+				encodeLayerNode(
+					{ idx: 1, neighbors },
+					{ neighbors: "compact", version: 1 },
+				),
+			).toThrow("Codec version 1 does not support compact neighbors");
+		});
+	});
 });
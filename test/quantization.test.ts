@@ -0,0 +1,466 @@
+import { readFileSync } from "node:fs";
+import { decodePointQuant, encodePointQuant } from "../src/codec";
+import { HNSW } from "../src/hnsw";
+import {
+	BinaryQuantizer,
+	ProductQuantizer,
+	ScalarQuantizer,
+	hamming_distance,
+	load_quantizer,
+} from "../src/quantization";
+import type { Quantizer } from "../src/types";
+import { distance_functions, seeded_random } from "../src/utils";
+import { KVMemory } from "./db/kvMemory";
+import { Memory } from "./db/memory";
+
+type Metadata = { id: number };
+
+describe("scalar quantizer", () => {
+	test("should reconstruct vectors within half a step", () => {
+		const sample = [
+			[0, -1, 10],
+			[1, 1, 20],
+			[0.5, 0, 15],
+		];
+		const quantizer = ScalarQuantizer.fit(sample);
+		expect(quantizer.dimension).toBe(3);
+		expect(quantizer.min).toEqual([0, -1, 10]);
+		expect(quantizer.max).toEqual([1, 1, 20]);
+
+		const p = [0.3, 0.7, 12.345];
+		const codes = quantizer.encode(p);
+		expect(codes.every((c) => Number.isInteger(c) && c >= 0 && c <= 255)).toBe(
+			true,
+		);
+		quantizer.decode(codes).forEach((x, i) => {
+			const step = (quantizer.max[i] - quantizer.min[i]) / 255;
+			expect(Math.abs(x - p[i])).toBeLessThanOrEqual(step / 2 + 1e-9);
+		});
+	});
+
+	test("should clamp values outside the sample range", () => {
+		const quantizer = ScalarQuantizer.fit([
+			[0, 5],
+			[1, 5],
+		]);
+		expect(quantizer.encode([-3, 5])).toEqual([0, 0]);
+		expect(quantizer.encode([3, 7])).toEqual([255, 0]);
+		expect(quantizer.decode([255, 0])).toEqual([1, 5]);
+	});
+
+	test("should reject invalid samples and vectors", () => {
+		expect(() => ScalarQuantizer.fit([])).toThrow(
+			"Cannot fit a quantizer to an empty sample",
+		);
+		expect(() => ScalarQuantizer.fit([[1, 2], [3]])).toThrow(
+			"Vectors have different dimensions: 2 and 1",
+		);
+		expect(() => ScalarQuantizer.fit([[1, 2]]).encode([1, 2, 3])).toThrow(
+			"Expected a vector of dimension 2, got 3",
+		);
+	});
+
+	test("should be restored from its parameters", () => {
+		const quantizer = ScalarQuantizer.fit([
+			[0, 1],
+			[2, 3],
+		]);
+		const restored = load_quantizer(JSON.parse(JSON.stringify(quantizer)));
+		expect(restored).toBeInstanceOf(ScalarQuantizer);
+		expect(restored.encode([1, 2])).toEqual(quantizer.encode([1, 2]));
+		expect(() => load_quantizer({ kind: "unknown" })).toThrow(
+			"Unknown quantizer: unknown",
+		);
+	});
+
+	test("should encode codes as PointQuant records", () => {
+		const decoded = decodePointQuant(
+			encodePointQuant({ idx: 7, v: [0, 17, 255] }),
+		);
+		expect(decoded.idx).toBe(7);
+		expect(decoded.v).toEqual([0, 17, 255]);
+	});
+});
+
+describe("product quantizer", () => {
+	let sample: number[][];
+
+	beforeAll(() => {
+		const points: number[][] = JSON.parse(
+			readFileSync("./test/data/data.json", "utf-8"),
+		);
+		sample = points.slice(0, 300);
+	});
+
+	test("should train a codebook per subspace", () => {
+		const quantizer = ProductQuantizer.fit(sample, {
+			subspaces: 5,
+			centroids: 16,
+			seed: 1,
+		});
+		expect(quantizer.subspaces).toBe(5);
+		expect(quantizer.width).toBe(5);
+		expect(quantizer.dimension).toBe(25);
+		expect(quantizer.codebooks.every((book) => book.length === 16)).toBe(true);
+
+		const codes = quantizer.encode(sample[0]);
+		expect(codes.length).toBe(5);
+		expect(codes.every((c) => Number.isInteger(c) && c >= 0 && c < 16)).toBe(
+			true,
+		);
+		expect(quantizer.decode(codes).length).toBe(25);
+
+		// same seed, same codebooks
+		expect(
+			ProductQuantizer.fit(sample, { subspaces: 5, centroids: 16, seed: 1 })
+				.codebooks,
+		).toEqual(quantizer.codebooks);
+	});
+
+	test("should reconstruct vectors better with more centroids", () => {
+		const error = (centroids: number) => {
+			const quantizer = ProductQuantizer.fit(sample, {
+				subspaces: 5,
+				centroids,
+				seed: 1,
+			});
+			return sample.reduce(
+				(sum, p) =>
+					sum + distance_functions.l2(p, quantizer.decode(quantizer.encode(p))),
+				0,
+			);
+		};
+		expect(error(64)).toBeLessThan(error(4));
+
+		// as many centroids as vectors, every vector is a centroid
+		const exact = ProductQuantizer.fit(sample.slice(0, 10), { subspaces: 5 });
+		const p = sample[3];
+		exact
+			.decode(exact.encode(p))
+			.forEach((x, i) => expect(x).toBeCloseTo(p[i], 6));
+	});
+
+	test("should compute distances from tables", () => {
+		const quantizer = ProductQuantizer.fit(sample, {
+			subspaces: 5,
+			centroids: 16,
+			seed: 1,
+		});
+		const q = sample[10];
+		for (const metric of ["l2", "cosine", "inner_product"] as const) {
+			const table = quantizer.distance_table(q, metric);
+			if (!table) throw new Error(`No table for ${metric}`);
+			for (const p of sample.slice(20, 30)) {
+				const codes = quantizer.encode(p);
+				expect(table(codes)).toBeCloseTo(
+					distance_functions[metric](q, quantizer.decode(codes)),
+					9,
+				);
+			}
+		}
+		expect(quantizer.distance_table(q, "manhattan")).toBeUndefined();
+	});
+
+	test("should reject invalid options and codes", () => {
+		expect(() => ProductQuantizer.fit(sample, { subspaces: 4 })).toThrow(
+			"Vectors of dimension 25 cannot be split into 4 subspaces",
+		);
+		expect(() =>
+			ProductQuantizer.fit(sample, { subspaces: 5, centroids: 300 }),
+		).toThrow("Number of centroids must be between 1 and 256, got 300");
+
+		const quantizer = ProductQuantizer.fit(sample, {
+			subspaces: 5,
+			centroids: 4,
+		});
+		expect(() => quantizer.decode([0, 1, 2])).toThrow(
+			"Expected 5 codes, got 3",
+		);
+		expect(() => quantizer.decode([0, 1, 2, 3, 4])).toThrow(
+			"Invalid code 4 for subspace 4",
+		);
+	});
+
+	test("should be restored from its parameters", () => {
+		const quantizer = ProductQuantizer.fit(sample, {
+			subspaces: 5,
+			centroids: 16,
+			seed: 1,
+		});
+		const restored = load_quantizer(JSON.parse(JSON.stringify(quantizer)));
+		expect(restored).toBeInstanceOf(ProductQuantizer);
+		expect((restored as ProductQuantizer).codebooks).toEqual(
+			quantizer.codebooks,
+		);
+		expect(restored.encode(sample[5])).toEqual(quantizer.encode(sample[5]));
+	});
+});
+
+describe("binary quantizer", () => {
+	test("should pack sign bits into bytes", () => {
+		const quantizer = new BinaryQuantizer(10);
+		const p = [0.5, -1, 0, 2, -0.1, 0.3, 0.2, -5, 1, -1];
+		const codes = quantizer.encode(p);
+		expect(codes).toEqual([0b01101001, 0b01]);
+		expect(quantizer.decode(codes)).toEqual(p.map((x) => (x > 0 ? 1 : -1)));
+		expect(() => quantizer.decode([1])).toThrow("Expected 2 codes, got 1");
+		expect(() => new BinaryQuantizer(0)).toThrow("Invalid dimension 0");
+	});
+
+	test("should count differing bits", () => {
+		expect(hamming_distance([0b1010], [0b0110])).toBe(2);
+		expect(hamming_distance([255, 0], [0, 255])).toBe(16);
+		expect(hamming_distance([7, 7], [7, 7])).toBe(0);
+	});
+
+	test("should compute distances from Hamming distances", () => {
+		const random = seeded_random(3);
+		const vector = () => Array.from({ length: 20 }, () => random() - 0.5);
+		const quantizer = new BinaryQuantizer(20);
+		const q = vector();
+		for (const metric of ["l2", "cosine", "inner_product"] as const) {
+			const table = quantizer.distance_table(q, metric);
+			if (!table) throw new Error(`No table for ${metric}`);
+			for (let i = 0; i < 10; i++) {
+				const codes = quantizer.encode(vector());
+				expect(table(codes)).toBeCloseTo(
+					distance_functions[metric](
+						quantizer.decode(quantizer.encode(q)),
+						quantizer.decode(codes),
+					),
+					9,
+				);
+			}
+		}
+		expect(quantizer.distance_table(q, "manhattan")).toBeUndefined();
+	});
+
+	test("should be restored from its parameters", () => {
+		const restored = load_quantizer(
+			JSON.parse(JSON.stringify(new BinaryQuantizer(12))),
+		);
+		expect(restored).toBeInstanceOf(BinaryQuantizer);
+		expect(restored.dimension).toBe(12);
+	});
+});
+
+describe("HNSW quantized storage", () => {
+	const N = 200;
+	const K = 10;
+	let points: number[][];
+	let quantizer: ScalarQuantizer;
+
+	beforeAll(() => {
+		points = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+		quantizer = ScalarQuantizer.fit(points.slice(0, N));
+	});
+
+	/** fraction of the exact K nearest neighbors that were found, over a few queries */
+	async function recall(index: HNSW<Metadata>, exact: HNSW<Metadata>) {
+		let found = 0;
+		const queries = points.slice(N, N + 10);
+		for (const q of queries) {
+			const truth = (await exact.flat_search(q, K)).map((r) => r.id);
+			const results = await index.knn_search(q, K);
+			found += results.filter((r) => truth.includes(r.id)).length;
+		}
+		return found / (queries.length * K);
+	}
+
+	async function build(options: { rerank?: boolean } = {}) {
+		const db = new Memory<Metadata>();
+		const index = new HNSW<Metadata>(db, 5, 64, 50, {
+			seed: 1,
+			quantizer,
+			...options,
+		});
+		await index.insertMany(
+			points.slice(0, N),
+			points.slice(0, N).map((_, i) => ({ id: i })),
+		);
+
+		const exact = new HNSW<Metadata>(new Memory<Metadata>(), 5, 64, 50);
+		await exact.insertMany(points.slice(0, N));
+		return { db, index, exact };
+	}
+
+	test("should store codes instead of vectors", async () => {
+		const { db, index, exact } = await build();
+
+		expect(await db.get_datasize()).toBe(N);
+		expect((await db.get_point(0)).length).toBe(0);
+		expect(await db.get_codes([0])).toEqual([quantizer.encode(points[0])]);
+		expect(JSON.parse((await db.get_quantizer()) as string)).toEqual({
+			quantizer: quantizer.toJSON(),
+			rerank: false,
+		});
+
+		expect(await recall(index, exact)).toBeGreaterThanOrEqual(0.8);
+
+		// vectors are returned as they are stored
+		const { point } = await index.get_vector(3);
+		expect(point).toEqual(quantizer.decode(quantizer.encode(points[3])));
+	});
+
+	test("should re-rank results with the full vectors", async () => {
+		const { db, index, exact } = await build({ rerank: true });
+		expect(await db.get_point(0)).toEqual(points[0]);
+
+		const q = points[N];
+		const results = await index.knn_search(q, K, { includeVectors: true });
+		for (const r of results) {
+			expect(r.vector).toEqual(points[r.id]);
+			expect(r.distance).toBe(index.distance(q, points[r.id]));
+		}
+		const distances = results.map((r) => r.distance);
+		expect(distances).toEqual([...distances].sort((a, b) => a - b));
+
+		const within = await index.range_search(q, results[K - 1].distance);
+		expect(within.every((r) => r.distance <= results[K - 1].distance)).toBe(
+			true,
+		);
+
+		expect(await recall(index, exact)).toBeGreaterThanOrEqual(0.9);
+	});
+
+	test("should load the quantizer of an existing index", async () => {
+		const { db, index } = await build({ rerank: true });
+
+		const reopened = new HNSW<Metadata>(db, 5, 64, 50);
+		const q = points[N + 1];
+		expect(await reopened.knn_search(q, K)).toEqual(
+			await index.knn_search(q, K),
+		);
+		expect(reopened.quantizer?.kind).toBe("scalar");
+		expect(reopened.rerank).toBe(true);
+
+		// inserts of the reopened index are quantized as well
+		const idx = await reopened.insert(points[N + 2]);
+		expect(await db.get_codes([idx])).toEqual([
+			quantizer.encode(points[N + 2]),
+		]);
+	});
+
+	test("should quantize single inserts and updates", async () => {
+		const db = new KVMemory();
+		const index = new HNSW(db, 5, 64, 50, { seed: 1, quantizer });
+		for (const p of points.slice(0, 50)) {
+			await index.insert(p);
+		}
+
+		await index.update(7, points[60]);
+		expect(await db.get_codes([7])).toEqual([quantizer.encode(points[60])]);
+		const [nearest] = await index.knn_search(points[60], 1);
+		expect(nearest.id).toBe(7);
+	});
+
+	test("should reject mismatching quantizers", async () => {
+		const { db } = await build();
+		const other: Quantizer = {
+			kind: "identity",
+			dimension: points[0].length,
+			encode: (p) => p,
+			decode: (codes) => codes,
+			toJSON: () => ({ kind: "identity" }),
+		};
+		await expect(
+			new HNSW(db, 5, 64, 50, { quantizer: other }).knn_search(points[0], 1),
+		).rejects.toThrow(
+			'Index was built with the "scalar" quantizer, but "identity" was requested',
+		);
+
+		const plain = new Memory();
+		await new HNSW(plain, 5, 64, 50).insert(points[0]);
+		await expect(
+			new HNSW(plain, 5, 64, 50, { quantizer }).insert(points[1]),
+		).rejects.toThrow(
+			"Index was built without quantization, rebuild it to quantize it",
+		);
+	});
+
+	test("should search product quantized codes with distance tables", async () => {
+		const pq = ProductQuantizer.fit(points.slice(0, N), {
+			subspaces: 5,
+			centroids: 64,
+			seed: 1,
+		});
+		const db = new Memory<Metadata>();
+		const index = new HNSW<Metadata>(db, 5, 64, 50, {
+			seed: 1,
+			quantizer: pq,
+			rerank: true,
+		});
+		await index.insertMany(points.slice(0, N));
+		const exact = new HNSW<Metadata>(new Memory<Metadata>(), 5, 64, 50);
+		await exact.insertMany(points.slice(0, N));
+
+		// the graph is walked on codes, full vectors are only read to re-rank
+		const getPoints = vi.spyOn(db, "get_points");
+		const getCodes = vi.spyOn(db, "get_codes");
+		const results = await index.knn_search(points[N], K);
+		expect(getCodes).toHaveBeenCalled();
+		expect(getPoints).toHaveBeenCalledTimes(1);
+		for (const r of results) {
+			expect(r.distance).toBe(index.distance(points[N], points[r.id]));
+		}
+
+		expect(await recall(index, exact)).toBeGreaterThanOrEqual(0.8);
+	});
+
+	test("should route on sign bits and re-score with the full vectors", async () => {
+		const random = seeded_random(5);
+		const vectors = Array.from({ length: 300 }, () =>
+			Array.from({ length: 128 }, () => random() - 0.5),
+		);
+		const db = new Memory();
+		const index = new HNSW(db, 8, 64, 60, {
+			seed: 1,
+			quantizer: new BinaryQuantizer(128),
+			rerank: true,
+		});
+		await index.insertMany(vectors.slice(0, 280));
+		expect((await db.get_codes([0]))[0]).toHaveLength(16);
+
+		const getPoints = vi.spyOn(db, "get_points");
+		let found = 0;
+		for (const q of vectors.slice(280)) {
+			const exact = await index.flat_search(q, K);
+			getPoints.mockClear();
+			const results = await index.knn_search(q, K);
+			// only the final candidates are read in full
+			expect(getPoints).toHaveBeenCalledTimes(1);
+			for (const r of results) {
+				expect(r.distance).toBe(index.distance(q, vectors[r.id]));
+			}
+			found += results.filter((r) => exact.some((e) => e.id === r.id)).length;
+		}
+		expect(found / (20 * K)).toBeGreaterThanOrEqual(0.6);
+	});
+
+	test("should sample live points", async () => {
+		const index = new HNSW(new Memory(), 5, 64, 50);
+		await index.insertMany(points.slice(0, 50));
+		await index.delete(3);
+
+		const sample = await index.sample_points(20, 7);
+		expect(sample.length).toBe(20);
+		expect(await index.sample_points(20, 7)).toEqual(sample);
+		for (const p of sample) {
+			expect(points.slice(0, 50)).toContainEqual(p);
+		}
+
+		const all = await index.sample_points(100);
+		expect(all.length).toBe(49);
+		expect(all).not.toContainEqual(points[3]);
+	});
+
+	test("should quantize an index while rebuilding it", async () => {
+		const source = new HNSW<Metadata>(new Memory<Metadata>(), 5, 64, 50);
+		await source.insertMany(points.slice(0, 50));
+
+		const target = new Memory<Metadata>();
+		const { index } = await source.rebuild(target, { quantizer });
+		expect(index.quantizer).toBe(quantizer);
+		expect(await target.get_codes([0])).toEqual([quantizer.encode(points[0])]);
+	});
+});
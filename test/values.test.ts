@@ -0,0 +1,194 @@
+import { readFileSync } from "node:fs";
+import {
+	type CodecOptions,
+	base64Values,
+	decodeLayerNode,
+	decodePoint,
+	encodeLayerNode,
+	encodeLayerNodeBytes,
+	encodePoint,
+	encodePointBytes,
+	rawValues,
+} from "../src/codec";
+import { EizenMemory } from "../src/db";
+import { HNSW } from "../src/hnsw";
+import { KVClient } from "./db/kvClient";
+
+type Metadata = { id: number };
+
+describe("value codecs", () => {
+	test("should encode values as bytes or base64", () => {
+		const point = { idx: 2, v: [0.25, -0.5] };
+		const bytes = encodePointBytes(point, { checksum: true });
+		expect(encodePoint(point, { checksum: true })).toBe(
+			Buffer.from(bytes).toString("base64"),
+		);
+		expect(decodePoint(bytes)).toEqual(point);
+
+		const node = { idx: 1, neighbors: { 3: 0.5 } };
+		expect(decodeLayerNode(encodeLayerNodeBytes(node)).neighbors).toEqual(
+			decodeLayerNode(encodeLayerNode(node)).neighbors,
+		);
+	});
+
+	test("should round-trip bytes and text", () => {
+		const bytes = Uint8Array.from([0, 1, 254, 255]);
+		const text = '{"id":"é"}';
+
+		expect(base64Values.from_bytes(bytes)).toBe("AAH+/w==");
+		expect(Array.from(base64Values.to_bytes("AAH+/w=="))).toEqual([
+			0, 1, 254, 255,
+		]);
+		expect(base64Values.to_text(base64Values.from_text(text))).toBe(text);
+
+		expect(rawValues.from_bytes(bytes)).toBe(bytes);
+		expect(rawValues.to_text(rawValues.from_text(text))).toBe(text);
+	});
+});
+
+describe("EizenMemory with binary values", () => {
+	const N = 60;
+	let points: number[][];
+
+	beforeAll(() => {
+		points = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	/** total size of the stored values, in bytes */
+	function size(kv: KVClient<string> | KVClient<Uint8Array>): number {
+		let total = 0;
+		for (const value of kv.values.values()) {
+			total += value.length;
+		}
+		return total;
+	}
+
+	test("should store raw bytes, and search the same", async () => {
+		const text = new KVClient<string>();
+		const binary = new KVClient<Uint8Array>();
+		const base64Index = new HNSW<Metadata>(new EizenMemory(text), 5, 64, 20, {
+			seed: 1,
+		});
+		const rawIndex = new HNSW<Metadata>(
+			new EizenMemory(binary, { values: rawValues }),
+			5,
+			64,
+			20,
+			{ seed: 1 },
+		);
+
+		for (const index of [base64Index, rawIndex]) {
+			await index.insertMany(
+				points.slice(0, N),
+				points.slice(0, N).map((_, i) => ({ id: i })),
+			);
+			await index.delete(4);
+		}
+
+		for (const value of binary.values.values()) {
+			expect(value).toBeInstanceOf(Uint8Array);
+		}
+		// vectors and nodes are stored without the base64 overhead
+		expect(size(binary)).toBeLessThan(size(text) * 0.8);
+
+		for (const q of points.slice(N, N + 5)) {
+			expect(await rawIndex.knn_search(q, 5)).toEqual(
+				await base64Index.knn_search(q, 5),
+			);
+		}
+		expect(await rawIndex.db.get_datasize()).toBe(N);
+	});
+
+	test("should keep collections in binary stores", async () => {
+		const binary = new KVClient<Uint8Array>();
+		await EizenMemory.create_collection(binary, "acme", rawValues);
+		expect(await EizenMemory.list_collections(binary, rawValues)).toEqual([
+			"acme",
+		]);
+
+		const index = new HNSW(
+			new EizenMemory(binary, { collection: "acme", values: rawValues }),
+			5,
+			64,
+			20,
+		);
+		await index.insertMany(points.slice(0, 10));
+		await EizenMemory.drop_collection(binary, "acme", rawValues);
+
+		expect(await EizenMemory.list_collections(binary, rawValues)).toEqual([]);
+		const dropped = new EizenMemory(binary, {
+			collection: "acme",
+			values: rawValues,
+		});
+		expect(await dropped.get_datasize()).toBe(0);
+		expect(await dropped.has_neighbors(0, [0, 1])).toEqual([false, false]);
+	});
+});
+
+describe("EizenMemory with compact nodes", () => {
+	const N = 120;
+	let points: number[][];
+
+	beforeAll(() => {
+		points = JSON.parse(readFileSync("./test/data/data.json", "utf-8"));
+	});
+
+	/** total size of the stored nodes, in bytes */
+	function nodeBytes(kv: KVClient): number {
+		let total = 0;
+		for (const [key, value] of kv.values) {
+			if (key.includes("__")) total += Buffer.from(value, "base64").length;
+		}
+		return total;
+	}
+
+	async function build(codec: CodecOptions) {
+		const kv = new KVClient();
+		const index = new HNSW<Metadata>(
+			new EizenMemory(kv, { codec }),
+			5,
+			64,
+			50,
+			{
+				seed: 1,
+			},
+		);
+		// one by one and in batches, so that nodes are pruned with stored neighbors
+		for (const [i, p] of points.slice(0, N / 2).entries()) {
+			await index.insert(p, { id: i });
+		}
+		await index.insertMany(
+			points.slice(N / 2, N),
+			points.slice(N / 2, N).map((_, i) => ({ id: N / 2 + i })),
+		);
+		await index.update(7, points[N + 10]);
+		return { kv, index };
+	}
+
+	test("should build and search the same graph without distances", async () => {
+		const map = await build({});
+		const compact = await build({ neighbors: "compact" });
+		const withDistances = await build({
+			neighbors: "compact",
+			distances: true,
+		});
+
+		expect(nodeBytes(compact.kv)).toBeLessThan(nodeBytes(map.kv) * 0.5);
+		expect(nodeBytes(withDistances.kv)).toBeLessThan(nodeBytes(map.kv));
+
+		let same = 0;
+		for (const q of points.slice(N, N + 10)) {
+			const expected = (await map.index.knn_search(q, 10)).map((r) => r.id);
+			for (const { index } of [compact, withDistances]) {
+				const ids = (await index.knn_search(q, 10)).map((r) => r.id);
+				same += ids.filter((id) => expected.includes(id)).length;
+			}
+		}
+		expect(same / 200).toBeGreaterThanOrEqual(0.9);
+
+		const report = await compact.index.verify();
+		expect(report.issues.filter((i) => i.type === "degree_exceeded")).toEqual(
+			[],
+		);
+	});
+});